@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCli } from '../src/cli';
+
+describe('cli', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const env = {
+    GITHUB_TOKEN: 'env-token',
+    GITHUB_REPOSITORY: 'owner/repo',
+  };
+
+  describe('parseCli', () => {
+    it('should default to the sync command with default options', () => {
+      const { command, config } = parseCli([], env);
+
+      expect(command).toBe('sync');
+      expect(config).toMatchObject({
+        githubToken: 'env-token',
+        owner: 'owner',
+        repo: 'repo',
+        beadsFile: '.beads/issues.jsonl',
+        dryRun: false,
+        mappingStore: 'github-scan',
+      });
+    });
+
+    it('should force a dry run for the plan command', () => {
+      const { command, config } = parseCli(['plan'], env);
+
+      expect(command).toBe('plan');
+      expect(config.dryRun).toBe(true);
+    });
+
+    it('should enable the mapping migration for the migrate command', () => {
+      const { command, config } = parseCli(['migrate', '--mapping-base', 'body'], env);
+
+      expect(command).toBe('migrate');
+      expect(config).toMatchObject({ migrateMapping: true, mappingBase: 'body', dryRun: false });
+    });
+
+    it('should read options from flags, then env vars, then the config file', () => {
+      const configFile = path.join(tmpDir, 'beads-synced.json');
+      fs.writeFileSync(
+        configFile,
+        JSON.stringify({
+          'label-prefix': 'file-',
+          'beads-file': 'file.jsonl',
+          'sync-statuses': ['open', 'closed'],
+          'sync-comments': false,
+          repository: 'file/repo',
+        })
+      );
+
+      const { config } = parseCli(
+        ['status', '--config', configFile, '--label-prefix', 'flag-'],
+        { ...env, BEADS_SYNCED_LABEL_PREFIX: 'env-', BEADS_SYNCED_BEADS_FILE: 'env.jsonl' }
+      );
+
+      expect(config.labelPrefix).toBe('flag-');
+      expect(config.beadsFile).toBe('env.jsonl');
+      expect(config.syncStatuses).toEqual(['open', 'closed']);
+      expect(config.syncComments).toBe(false);
+      expect(config.owner).toBe('file');
+    });
+
+    it('should parse project field names', () => {
+      const { config } = parseCli(['--project-fields', 'status=Stage, estimate='], env);
+
+      expect(config.projectFields).toEqual({
+        priority: 'Priority',
+        status: 'Stage',
+        type: 'Type',
+        estimate: '',
+      });
+    });
+
+    it('should prefer the explicit token over GITHUB_TOKEN', () => {
+      const { config } = parseCli(['--github-token', 'flag-token'], env);
+
+      expect(config.githubToken).toBe('flag-token');
+    });
+
+    it('should reject unknown commands and missing required options', () => {
+      expect(() => parseCli(['publish'], env)).toThrow('Unknown command: publish');
+      expect(() => parseCli([], { GITHUB_TOKEN: 'token' })).toThrow('repository');
+      expect(() => parseCli([], { GITHUB_REPOSITORY: 'owner/repo' })).toThrow('github-token');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { runWithConcurrency, groupBy } from '../src/concurrency';
+
+describe('concurrency', () => {
+  describe('runWithConcurrency', () => {
+    it('should run every item with at most `limit` tasks in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const started: number[] = [];
+
+      await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        started.push(item);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+      });
+
+      expect(started).toEqual([1, 2, 3, 4, 5]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should run sequentially with an invalid limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await runWithConcurrency([1, 2, 3], NaN, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await Promise.resolve();
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(1);
+    });
+
+    it('should handle no items', async () => {
+      await expect(runWithConcurrency([], 4, async () => {})).resolves.toBeUndefined();
+    });
+  });
+
+  describe('groupBy', () => {
+    it('should group items by key keeping their order', () => {
+      expect(groupBy([1, 2, 3, 4, 5], (n) => n % 2)).toEqual([
+        [1, 3, 5],
+        [2, 4],
+      ]);
+    });
+  });
+});
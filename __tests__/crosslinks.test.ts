@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { syncCrossLinks } from '../src/crosslinks';
+import { BeadsDependency, BeadsIssue, MappingFile } from '../src/types';
+import { GitHubClient } from '../src/github';
+import { createEmptyMapping, setMapping, createIssueMapping, getMapping } from '../src/mapper';
+
+describe('crosslinks', () => {
+  let mockClient: {
+    createComment: ReturnType<typeof vi.fn>;
+    deleteComment: ReturnType<typeof vi.fn>;
+    addBlockedBy: ReturnType<typeof vi.fn>;
+    removeBlockedBy: ReturnType<typeof vi.fn>;
+  };
+  let mapping: MappingFile;
+
+  const makeIssue = (id: string, dependencies?: BeadsDependency[]): BeadsIssue => ({
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    dependencies,
+  });
+
+  const client = () => mockClient as unknown as GitHubClient;
+
+  beforeEach(() => {
+    mockClient = {
+      createComment: vi.fn().mockResolvedValue({ id: 900 }),
+      deleteComment: vi.fn().mockResolvedValue(undefined),
+      addBlockedBy: vi.fn().mockResolvedValue(true),
+      removeBlockedBy: vi.fn().mockResolvedValue(undefined),
+    };
+    mapping = createEmptyMapping();
+    setMapping(mapping, 'bd-a', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+    setMapping(mapping, 'bd-b', createIssueMapping(2, 200, '2025-01-01T00:00:00Z'));
+  });
+
+  it('should post a cross-reference comment once per dependency', async () => {
+    const issue = makeIssue('bd-a', [
+      { id: 'bd-b', type: 'relates-to' },
+      { id: 'bd-missing', type: 'blocks' },
+      { id: 'bd-b', type: 'parent-child' },
+    ]);
+
+    const result = await syncCrossLinks([issue], mapping, client(), 'comment', false);
+
+    expect(mockClient.createComment).toHaveBeenCalledTimes(1);
+    expect(mockClient.createComment.mock.calls[0][0]).toBe(1);
+    expect(mockClient.createComment.mock.calls[0][1]).toContain('Related to #2 (`bd-b`)');
+    expect(mockClient.createComment.mock.calls[0][1]).toContain('<!-- beads-sync-comment -->');
+    expect(result).toEqual({ added: 1, removed: 0, changedIds: ['bd-a'] });
+    expect(getMapping(mapping, 'bd-a')?.cross_links).toEqual({
+      'relates-to:bd-b': { github_comment_id: 900 },
+    });
+
+    const rerun = await syncCrossLinks([issue], mapping, client(), 'comment', false);
+    expect(mockClient.createComment).toHaveBeenCalledTimes(1);
+    expect(rerun.changedIds).toEqual([]);
+  });
+
+  it('should use the blocked-by relationship in native mode', async () => {
+    const issue = makeIssue('bd-a', [
+      { id: 'bd-b', type: 'blocks' },
+      { id: 'bd-b', type: 'blocked-by' },
+    ]);
+
+    const result = await syncCrossLinks([issue], mapping, client(), 'native', false);
+
+    expect(mockClient.addBlockedBy).toHaveBeenCalledTimes(1);
+    expect(mockClient.addBlockedBy).toHaveBeenCalledWith(1, 200);
+    expect(mockClient.createComment).not.toHaveBeenCalled();
+    expect(result.added).toBe(1);
+    expect(getMapping(mapping, 'bd-a')?.cross_links).toEqual({
+      'blocked-by:bd-b': { blocked_by_issue_id: 200 },
+    });
+  });
+
+  it('should fall back to comments when issue dependencies are unavailable', async () => {
+    mockClient.addBlockedBy.mockResolvedValue(false);
+    setMapping(mapping, 'bd-c', createIssueMapping(3, 300, '2025-01-01T00:00:00Z'));
+
+    await syncCrossLinks(
+      [
+        makeIssue('bd-a', [{ id: 'bd-b', type: 'blocks' }]),
+        makeIssue('bd-c', [{ id: 'bd-b', type: 'blocks' }]),
+      ],
+      mapping,
+      client(),
+      'native',
+      false
+    );
+
+    expect(mockClient.addBlockedBy).toHaveBeenCalledTimes(1);
+    expect(mockClient.createComment).toHaveBeenCalledTimes(2);
+    expect(mockClient.createComment.mock.calls[0][1]).toContain('Blocked by #2');
+    expect(getMapping(mapping, 'bd-c')?.cross_links).toEqual({
+      'blocked-by:bd-b': { github_comment_id: 900 },
+    });
+  });
+
+  it('should remove links whose dependency went away', async () => {
+    getMapping(mapping, 'bd-a')!.cross_links = {
+      'relates-to:bd-b': { github_comment_id: 800 },
+      'blocked-by:bd-b': { blocked_by_issue_id: 200 },
+    };
+
+    const result = await syncCrossLinks([makeIssue('bd-a')], mapping, client(), 'native', false);
+
+    expect(mockClient.deleteComment).toHaveBeenCalledWith(800);
+    expect(mockClient.removeBlockedBy).toHaveBeenCalledWith(1, 200);
+    expect(result).toEqual({ added: 0, removed: 2, changedIds: ['bd-a'] });
+    expect(getMapping(mapping, 'bd-a')?.cross_links).toBeUndefined();
+  });
+
+  it('should not change links in dry-run mode', async () => {
+    getMapping(mapping, 'bd-a')!.cross_links = { 'relates-to:bd-c': { github_comment_id: 800 } };
+
+    const result = await syncCrossLinks(
+      [makeIssue('bd-a', [{ id: 'bd-b', type: 'relates-to' }])],
+      mapping,
+      client(),
+      'comment',
+      true
+    );
+
+    expect(mockClient.createComment).not.toHaveBeenCalled();
+    expect(mockClient.deleteComment).not.toHaveBeenCalled();
+    expect(result.changedIds).toEqual([]);
+  });
+
+  it('should keep the recorded links when the API call fails', async () => {
+    mockClient.createComment.mockRejectedValue(new Error('boom'));
+
+    const result = await syncCrossLinks(
+      [makeIssue('bd-a', [{ id: 'bd-b', type: 'relates-to' }])],
+      mapping,
+      client(),
+      'comment',
+      false
+    );
+
+    expect(result.changedIds).toEqual([]);
+    expect(getMapping(mapping, 'bd-a')?.cross_links).toBeUndefined();
+  });
+});
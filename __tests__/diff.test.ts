@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { computeDiff, parseExternalRef, needsUpdate } from '../src/diff';
 import { BeadsIssue, MappingFile, BeadsStatus } from '../src/types';
 import { createEmptyMapping, setMapping, createIssueMapping } from '../src/mapper';
+import { computeContentHash, computeCommentHash } from '../src/state';
 
 describe('diff', () => {
   const makeIssue = (
@@ -64,6 +65,32 @@ describe('diff', () => {
 
       expect(needsUpdate(issue, mapping)).toBe(false);
     });
+
+    it('should return true when content hash differs at the same timestamp', () => {
+      const issue = makeIssue('bd-1', 'open', { description: 'Edited' });
+      const mapping = createIssueMapping(
+        1,
+        100,
+        '2025-01-01T00:00:00Z',
+        false,
+        computeContentHash(makeIssue('bd-1'))
+      );
+
+      expect(needsUpdate(issue, mapping)).toBe(true);
+    });
+
+    it('should return false when content hash matches', () => {
+      const issue = makeIssue('bd-1');
+      const mapping = createIssueMapping(
+        1,
+        100,
+        '2025-01-01T00:00:00Z',
+        false,
+        computeContentHash(issue)
+      );
+
+      expect(needsUpdate(issue, mapping)).toBe(false);
+    });
   });
 
   describe('computeDiff', () => {
@@ -123,6 +150,36 @@ describe('diff', () => {
       expect(result.actions).toHaveLength(0);
     });
 
+    it('should update an epic when one of its children changed', () => {
+      const epic = makeIssue('bd-epic', 'open', { issue_type: 'epic' });
+      const child = makeIssue('bd-child', 'closed', {
+        dependencies: [{ id: 'bd-epic', type: 'parent-child' }],
+      });
+      const mapping = createEmptyMapping();
+      // Synced while the child was open
+      setMapping(
+        mapping,
+        'bd-epic',
+        createIssueMapping(
+          42,
+          100,
+          '2025-01-01T00:00:00Z',
+          false,
+          computeContentHash(epic, [
+            { id: 'bd-child', title: 'Issue bd-child', status: 'open', blocked_by: [] },
+          ])
+        )
+      );
+
+      // The child is filtered out of the sync but still rendered in the epic
+      const result = computeDiff([epic], mapping, [epic, child]);
+
+      expect(result.actions).toEqual([
+        expect.objectContaining({ type: 'update', githubIssueNumber: 42 }),
+      ]);
+      expect(computeDiff([epic], mapping, [epic, { ...child, status: 'open' }]).actions).toEqual([]);
+    });
+
     it('should return close action for closed beads issue', () => {
       const issues = [
         makeIssue('bd-closing', 'closed', {
@@ -174,6 +231,24 @@ describe('diff', () => {
       });
     });
 
+    it('should return adopt action for issue matched by title', () => {
+      const issues = [makeIssue('bd-title', 'open')];
+      const mapping = createEmptyMapping();
+
+      const result = computeDiff(issues, mapping, issues, [
+        { beads_id: 'bd-title', github_issue_number: 7, github_title: 'Issue bd-title', score: 0.95 },
+      ]);
+
+      expect(result.actions).toEqual([
+        {
+          type: 'adopt',
+          beadsIssue: issues[0],
+          githubIssueNumber: 7,
+          reason: 'Adopting existing GitHub issue with matching title (score 0.95)',
+        },
+      ]);
+    });
+
     it('should treat non-gh external_ref as create', () => {
       const issues = [
         makeIssue('bd-jira', 'open', { external_ref: 'JIRA-123' }),
@@ -221,6 +296,76 @@ describe('diff', () => {
       });
     });
 
+    it('should detect edited and deleted comments', () => {
+      const kept = { id: '1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Kept' };
+      const edited = { id: '2', author: 'bob', created_at: '2025-01-01T01:00:00Z', body: 'Edited' };
+      const issues = [makeIssue('bd-comments', 'open', { comments: [kept, edited] })];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.comments['1'] = { github_comment_id: 901, body_hash: computeCommentHash(kept) };
+      issueMapping.comments['2'] = {
+        github_comment_id: 902,
+        body_hash: computeCommentHash({ ...edited, body: 'Original' }),
+      };
+      issueMapping.comments['3'] = { github_comment_id: 903, body_hash: 'removed' };
+      setMapping(mapping, 'bd-comments', issueMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.commentActions).toHaveLength(0);
+      expect(result.commentUpdateActions).toEqual([
+        {
+          beadsIssueId: 'bd-comments',
+          githubIssueNumber: 42,
+          githubCommentId: 902,
+          comment: edited,
+        },
+      ]);
+      expect(result.commentDeleteActions).toEqual([
+        {
+          beadsIssueId: 'bd-comments',
+          githubIssueNumber: 42,
+          githubCommentId: 903,
+          commentId: '3',
+        },
+      ]);
+    });
+
+    it('should not update comments synced without a body hash', () => {
+      const comment = { id: '1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' };
+      const issues = [makeIssue('bd-comments', 'open', { comments: [comment] })];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.comments['1'] = { github_comment_id: 901 };
+      setMapping(mapping, 'bd-comments', issueMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.commentUpdateActions).toHaveLength(0);
+      expect(result.commentDeleteActions).toHaveLength(0);
+    });
+
+    it('should not sync comments imported from GitHub back to GitHub', () => {
+      const issues = [
+        makeIssue('bd-comments', 'open', {
+          comments: [
+            {
+              id: 'gh-123',
+              author: 'octocat',
+              created_at: '2025-01-01T00:00:00Z',
+              body: 'Imported comment',
+            },
+          ],
+        }),
+      ];
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-comments', createIssueMapping(42, 100, '2025-01-01T00:00:00Z'));
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.commentActions).toHaveLength(0);
+    });
+
     it('should handle multiple issues correctly', () => {
       const issues = [
         makeIssue('bd-new'),
@@ -280,5 +425,67 @@ describe('diff', () => {
       expect(result.actions).toHaveLength(1);
       expect(result.actions[0].type).toBe('update');
     });
+
+    it('should reopen a GitHub issue closed while beads is open, regardless of updated_at', () => {
+      const issues = [makeIssue('bd-manually-closed', 'open')];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.github_state = 'closed';
+      setMapping(mapping, 'bd-manually-closed', issueMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.actions).toEqual([
+        {
+          type: 'reopen',
+          beadsIssue: issues[0],
+          githubIssueNumber: 42,
+          reason: 'GitHub issue closed while beads issue is open',
+        },
+      ]);
+    });
+
+    it('should close a GitHub issue open while beads is closed, regardless of updated_at', () => {
+      const issues = [makeIssue('bd-manually-reopened', 'closed')];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.github_state = 'open';
+      setMapping(mapping, 'bd-manually-reopened', issueMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.actions).toHaveLength(1);
+      expect(result.actions[0].type).toBe('close');
+    });
+
+    it('should update rather than close again an issue already closed on GitHub', () => {
+      const issues = [
+        makeIssue('bd-closed', 'closed', { updated_at: '2025-01-02T00:00:00Z' }),
+      ];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.github_state = 'closed';
+      setMapping(mapping, 'bd-closed', issueMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.actions).toHaveLength(1);
+      expect(result.actions[0].type).toBe('update');
+    });
+
+    it('should return no action when states match and issue is unchanged', () => {
+      const issues = [makeIssue('bd-open', 'open'), makeIssue('bd-closed', 'closed')];
+      const mapping = createEmptyMapping();
+      const openMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      openMapping.github_state = 'open';
+      const closedMapping = createIssueMapping(43, 101, '2025-01-01T00:00:00Z');
+      closedMapping.github_state = 'closed';
+      setMapping(mapping, 'bd-open', openMapping);
+      setMapping(mapping, 'bd-closed', closedMapping);
+
+      const result = computeDiff(issues, mapping);
+
+      expect(result.actions).toHaveLength(0);
+    });
   });
 });
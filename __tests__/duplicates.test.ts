@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { closeDuplicates, resolveAdoptedDuplicates } from '../src/duplicates';
+import { BeadsIssue, MappingFile, SyncConfig } from '../src/types';
+import { GitHubClient, GitHubIssue } from '../src/github';
+import {
+  createEmptyMapping,
+  createIssueMapping,
+  getMapping,
+  pickCanonicalIssue,
+  setMapping,
+} from '../src/mapper';
+
+describe('duplicates', () => {
+  let mockClient: {
+    getIssue: ReturnType<typeof vi.fn>;
+    createComment: ReturnType<typeof vi.fn>;
+    updateIssue: ReturnType<typeof vi.fn>;
+  };
+  let mapping: MappingFile;
+
+  const config = { labelPrefix: '', dryRun: false } as SyncConfig;
+
+  const makeGitHubIssue = (number: number): GitHubIssue => ({
+    number,
+    id: number * 100,
+    state: 'open',
+    title: `[bd-dup] Issue ${number}`,
+    body: null,
+    labels: ['beads-synced', 'priority:p2', 'triage'],
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      getIssue: vi.fn().mockImplementation(async (number: number) => makeGitHubIssue(number)),
+      createComment: vi.fn().mockResolvedValue({ id: 1 }),
+      updateIssue: vi.fn().mockResolvedValue({}),
+    };
+    mapping = createEmptyMapping();
+    setMapping(
+      mapping,
+      'bd-dup',
+      pickCanonicalIssue([
+        createIssueMapping(4, 400, '2025-01-01T00:00:00Z'),
+        createIssueMapping(7, 700, '2025-01-01T00:00:00Z'),
+      ])
+    );
+    setMapping(mapping, 'bd-single', createIssueMapping(9, 900, '2025-01-01T00:00:00Z'));
+  });
+
+  describe('resolveAdoptedDuplicates', () => {
+    it('should keep the issue adopted through the external ref', () => {
+      const issue: BeadsIssue = {
+        id: 'bd-dup',
+        title: 'Dup',
+        status: 'open',
+        external_ref: 'gh-7',
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      };
+
+      resolveAdoptedDuplicates([issue], mapping);
+
+      expect(getMapping(mapping, 'bd-dup')?.github_issue_number).toBe(7);
+      expect(getMapping(mapping, 'bd-dup')?.duplicates?.map((d) => d.github_issue_number)).toEqual([4]);
+    });
+  });
+
+  describe('closeDuplicates', () => {
+    it('should close duplicates with a comment pointing to the canonical issue', async () => {
+      const collisions = await closeDuplicates(mapping, mockClient as unknown as GitHubClient, config);
+
+      expect(collisions).toEqual([{ beadsId: 'bd-dup', canonical: 4, duplicates: [7] }]);
+      expect(mockClient.createComment).toHaveBeenCalledWith(7, expect.stringContaining('Duplicate of #4'));
+      expect(mockClient.updateIssue).toHaveBeenCalledWith({
+        issueNumber: 7,
+        state: 'closed',
+        labels: ['triage', 'duplicate'],
+      });
+      expect(getMapping(mapping, 'bd-dup')?.duplicates).toBeUndefined();
+    });
+
+    it('should only report duplicates in dry-run mode', async () => {
+      const collisions = await closeDuplicates(mapping, mockClient as unknown as GitHubClient, {
+        ...config,
+        dryRun: true,
+      });
+
+      expect(collisions).toEqual([{ beadsId: 'bd-dup', canonical: 4, duplicates: [7] }]);
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+      expect(getMapping(mapping, 'bd-dup')?.duplicates).toHaveLength(1);
+    });
+
+    it('should keep the duplicates when the canonical issue no longer exists', async () => {
+      mockClient.getIssue.mockResolvedValueOnce(null);
+
+      const collisions = await closeDuplicates(mapping, mockClient as unknown as GitHubClient, config);
+
+      expect(collisions[0].duplicates).toEqual([]);
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should keep the duplicates that failed to close', async () => {
+      mockClient.updateIssue.mockRejectedValue(new Error('boom'));
+
+      const collisions = await closeDuplicates(mapping, mockClient as unknown as GitHubClient, config);
+
+      expect(collisions[0].duplicates).toEqual([]);
+      expect(getMapping(mapping, 'bd-dup')?.duplicates).toHaveLength(1);
+    });
+  });
+});
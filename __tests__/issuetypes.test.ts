@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { resolveIssueType, findUnmappedIssueTypes } from '../src/issuetypes';
+import { BeadsIssue, BeadsIssueType } from '../src/types';
+import { GitHubClient } from '../src/github';
+
+describe('issuetypes', () => {
+  const typeMapping: Record<BeadsIssueType, string> = {
+    bug: 'Bug',
+    feature: 'Feature',
+    task: 'Task',
+    epic: 'Epic',
+    chore: 'Task',
+  };
+  const orgTypes = ['Task', 'bug', 'Feature'];
+
+  const makeIssue = (id: string, issueType?: BeadsIssueType): BeadsIssue => ({
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    issue_type: issueType,
+  });
+
+  describe('resolveIssueType', () => {
+    it('should return the organization type name of a mapped beads type', () => {
+      expect(resolveIssueType('chore', typeMapping, orgTypes)).toBe('Task');
+      expect(resolveIssueType('bug', typeMapping, orgTypes)).toBe('bug');
+    });
+
+    it('should return undefined for missing types', () => {
+      expect(resolveIssueType('epic', typeMapping, orgTypes)).toBeUndefined();
+      expect(resolveIssueType(undefined, typeMapping, orgTypes)).toBeUndefined();
+      expect(resolveIssueType('bug', typeMapping, [])).toBeUndefined();
+    });
+  });
+
+  describe('findUnmappedIssueTypes', () => {
+    it('should list the used beads types without native type once', () => {
+      const issues = [
+        makeIssue('bd-1', 'epic'),
+        makeIssue('bd-2', 'epic'),
+        makeIssue('bd-3', 'task'),
+        makeIssue('bd-4'),
+      ];
+
+      expect(findUnmappedIssueTypes(issues, typeMapping, orgTypes)).toEqual(['epic']);
+    });
+  });
+
+  describe('GitHubClient.listIssueTypes', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it.each([403, 404])('should fall back to no issue types on HTTP %i', async (status) => {
+      const fetch = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ message: 'Not allowed' }), {
+          status,
+          headers: { 'content-type': 'application/json' },
+        })
+      );
+      vi.stubGlobal('fetch', fetch);
+      const client = new GitHubClient({ token: 'test-token', owner: 'octo-org', repo: 'repo' });
+
+      await expect(client.listIssueTypes()).resolves.toEqual([]);
+      await expect(client.listIssueTypes()).resolves.toEqual([]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
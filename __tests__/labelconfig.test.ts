@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseLabelConfig, loadLabelScheme } from '../src/labelconfig';
+import { getAllRequiredLabels, getLabelsForIssue, isSyncerLabel } from '../src/labels';
+import { BeadsIssue } from '../src/types';
+
+describe('labelconfig', () => {
+  describe('parseLabelConfig', () => {
+    it('should return the built-in labels for an empty config', () => {
+      const scheme = parseLabelConfig('', 'x-');
+
+      expect(scheme.priority[0]?.name).toBe('x-priority:p0');
+      expect(scheme.syncMarker.name).toBe('x-beads-synced');
+      expect(scheme.customLabels).toEqual({});
+    });
+
+    it('should rename, recolor, map and disable labels', () => {
+      const scheme = parseLabelConfig(
+        [
+          'priority:',
+          '  0: "severity: critical"',
+          '  1: { name: P1, color: "#FF0000" }',
+          '  4: false',
+          'type:',
+          '  bug: { description: Defect }',
+          'in-progress: false',
+          'labels:',
+          '  frontend: "area: frontend"',
+        ].join('\n'),
+        'x-'
+      );
+
+      expect(scheme.priority[0]?.name).toBe('severity: critical');
+      expect(scheme.priority[1]).toMatchObject({ name: 'P1', color: 'ff0000' });
+      expect(scheme.priority[4]).toBeUndefined();
+      expect(scheme.type.bug).toMatchObject({ name: 'x-type:bug', description: 'Defect' });
+      expect(scheme.inProgress).toBeUndefined();
+      expect(scheme.customLabels).toEqual({ frontend: 'area: frontend' });
+      expect(scheme.existing).toEqual(['severity: critical']);
+    });
+
+    it('should accept JSON', () => {
+      const scheme = parseLabelConfig(JSON.stringify({ blocked: { name: 'blocked' } }));
+
+      expect(scheme.blocked?.name).toBe('blocked');
+    });
+
+    it('should report invalid entries with their path', () => {
+      expect(() => parseLabelConfig('colours: {}')).toThrow('colours: unknown key');
+      expect(() => parseLabelConfig('priority:\n  7: P7')).toThrow('priority.7: unknown priority');
+      expect(() => parseLabelConfig('type:\n  bug: { color: red }')).toThrow(
+        'type.bug.color: "red" is not a hex color'
+      );
+      expect(() => parseLabelConfig('type:\n  bug: { size: 3 }')).toThrow('type.bug.size: unknown field');
+      expect(() => parseLabelConfig('sync-marker: false')).toThrow('cannot be disabled');
+      expect(() => parseLabelConfig('labels:\n  ui: ""')).toThrow('labels.ui');
+    });
+
+    it('should reject label names used twice', () => {
+      expect(() => parseLabelConfig('priority:\n  0: urgent\n  1: urgent')).toThrow(
+        'priority.1: label "urgent" is already used by priority.0'
+      );
+    });
+  });
+
+  describe('loadLabelScheme', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-labels-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should load the config file', () => {
+      const file = path.join(tmpDir, 'labels.yml');
+      fs.writeFileSync(file, 'blocked: { name: blocked }\n');
+
+      expect(loadLabelScheme(file).blocked?.name).toBe('blocked');
+    });
+
+    it('should name the file in errors', () => {
+      const file = path.join(tmpDir, 'labels.yml');
+      fs.writeFileSync(file, 'type: [bug]\n');
+
+      expect(() => loadLabelScheme(file)).toThrow(`Invalid label config ${file}: type`);
+      expect(() => loadLabelScheme(path.join(tmpDir, 'missing.yml'))).toThrow('Cannot read label config');
+    });
+  });
+
+  describe('generated labels', () => {
+    const scheme = parseLabelConfig(
+      'priority:\n  0: "severity: critical"\ntype:\n  bug: false\nlabels:\n  frontend: "area: frontend"'
+    );
+    const issue: BeadsIssue = {
+      id: 'bd-test',
+      title: 'Test',
+      status: 'open',
+      priority: 0,
+      issue_type: 'bug',
+      labels: ['frontend'],
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    };
+
+    it('should apply the scheme to the issue labels', () => {
+      const labels = getLabelsForIssue(issue, {
+        addSyncMarker: false,
+        labelScheme: scheme,
+        setIdAsLabel: false,
+      });
+
+      expect(labels).toEqual(['severity: critical', 'area: frontend']);
+    });
+
+    it('should not create existing or disabled labels', () => {
+      const names = getAllRequiredLabels('', scheme).map((label) => label.name);
+
+      expect(names).not.toContain('severity: critical');
+      expect(names).not.toContain('type:bug');
+      expect(names).toContain('priority:p1');
+      expect(isSyncerLabel('severity: critical', '', scheme)).toBe(true);
+    });
+  });
+});
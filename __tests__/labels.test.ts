@@ -6,7 +6,13 @@ import {
   getBeadsIdLabel,
   parseBeadsIdFromLabel,
   extractBeadsIdFromLabels,
+  isSyncerLabel,
+  reconcileLabels,
+  findOrphanedLabels,
+  diffLabels,
+  getDefaultLabelScheme,
 } from '../src/labels';
+import { createEmptyMapping, createIssueMapping, setMapping } from '../src/mapper';
 import { BeadsIssue } from '../src/types';
 
 describe('labels', () => {
@@ -47,6 +53,13 @@ describe('labels', () => {
       expect(labels).toContain('type:bug');
     });
 
+    it('should not include type label when synced as native issue type', () => {
+      const issue: BeadsIssue = { ...baseIssue, issue_type: 'bug' };
+      const labels = getLabelsForIssue(issue, { addSyncMarker: false, addTypeLabel: false });
+
+      expect(labels).not.toContain('type:bug');
+    });
+
     it('should include beads-blocked label when status is blocked', () => {
       const issue: BeadsIssue = { ...baseIssue, status: 'blocked' };
 
@@ -219,6 +232,11 @@ describe('labels', () => {
     it('should return null when prefix does not match', () => {
       expect(parseBeadsIdFromLabel('beads-id:bd-abc123', 'wrong-')).toBeNull();
     });
+
+    it('should only accept IDs following the beads grammar', () => {
+      expect(parseBeadsIdFromLabel('beads-id:proj-a3f.1.2')).toBe('proj-a3f.1.2');
+      expect(parseBeadsIdFromLabel('beads-id:not an id')).toBeNull();
+    });
   });
 
   describe('extractBeadsIdFromLabels', () => {
@@ -263,4 +281,131 @@ describe('labels', () => {
       expect(labels).toContain('myprefix-beads-id:bd-test');
     });
   });
+
+  describe('isSyncerLabel', () => {
+    it('should recognize generated labels', () => {
+      expect(isSyncerLabel('beads-synced')).toBe(true);
+      expect(isSyncerLabel('priority:p0')).toBe(true);
+      expect(isSyncerLabel('type:bug')).toBe(true);
+      expect(isSyncerLabel('epic:bd-parent')).toBe(true);
+      expect(isSyncerLabel('beads-id:bd-abc')).toBe(true);
+    });
+
+    it('should respect the label prefix', () => {
+      expect(isSyncerLabel('my-priority:p0', 'my-')).toBe(true);
+      expect(isSyncerLabel('priority:p0', 'my-')).toBe(false);
+    });
+
+    it('should not recognize other labels', () => {
+      expect(isSyncerLabel('frontend')).toBe(false);
+      expect(isSyncerLabel('good first issue')).toBe(false);
+      expect(isSyncerLabel('epic:roadmap')).toBe(false);
+      expect(isSyncerLabel('beads-id:Q3')).toBe(false);
+    });
+  });
+
+  describe('reconcileLabels', () => {
+    it('should keep labels not owned by the syncer', () => {
+      expect(
+        reconcileLabels(['needs-triage', 'priority:p0'], ['priority:p1'])
+      ).toEqual(['needs-triage', 'priority:p1']);
+    });
+
+    it('should remove previously synced labels that are no longer wanted', () => {
+      expect(
+        reconcileLabels(['backend', 'frontend', 'wontfix'], ['frontend'], ['backend', 'frontend'])
+      ).toEqual(['wontfix', 'frontend']);
+    });
+
+    it('should own the custom labels of the scheme without a previous sync record', () => {
+      const scheme = { ...getDefaultLabelScheme(), customLabels: { backend: 'area: backend' } };
+
+      expect(
+        reconcileLabels(['area: backend', 'needs-triage'], ['type:bug'], undefined, '', scheme)
+      ).toEqual(['needs-triage', 'type:bug']);
+      expect(
+        reconcileLabels(['area: backend', 'needs-triage'], ['type:bug'], [], '', scheme)
+      ).toEqual(['area: backend', 'needs-triage', 'type:bug']);
+    });
+
+    it('should keep hand-made epic labels', () => {
+      expect(reconcileLabels(['epic:roadmap', 'epic:bd-old'], ['epic:bd-new'])).toEqual([
+        'epic:roadmap',
+        'epic:bd-new',
+      ]);
+    });
+
+    it('should not duplicate labels already on the issue', () => {
+      expect(reconcileLabels(['frontend'], ['frontend'])).toEqual(['frontend']);
+    });
+
+    it('should respect the label prefix', () => {
+      expect(
+        reconcileLabels(['my-type:bug', 'type:bug'], ['my-type:task'], [], 'my-')
+      ).toEqual(['type:bug', 'my-type:task']);
+    });
+  });
+
+  describe('findOrphanedLabels', () => {
+    const child: BeadsIssue = {
+      ...baseIssue,
+      id: 'bd-child',
+      dependencies: [{ id: 'bd-epic', type: 'parent-child' }],
+    };
+
+    it('should find epic and beads ID labels no longer used', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-deleted', createIssueMapping(9, 900, '2025-01-01T00:00:00Z'));
+
+      const orphaned = findOrphanedLabels(
+        [
+          'epic:bd-epic',
+          'epic:bd-gone',
+          'beads-id:bd-child',
+          'beads-id:bd-deleted',
+          'beads-id:bd-gone',
+          'epic:roadmap',
+          'epic:Q3',
+          'frontend',
+        ],
+        [child],
+        mapping
+      );
+
+      expect(orphaned).toEqual(['epic:bd-gone', 'beads-id:bd-gone']);
+    });
+
+    it('should respect the label prefix', () => {
+      expect(
+        findOrphanedLabels(['x-epic:bd-gone', 'epic:bd-gone'], [child], createEmptyMapping(), 'x-')
+      ).toEqual(['x-epic:bd-gone']);
+    });
+  });
+
+  describe('diffLabels', () => {
+    const bug = { name: 'type:bug', color: 'b60205', description: 'Bug report' };
+    const task = { name: 'type:task', color: '1d76db', description: 'Task' };
+
+    it('should list missing labels once', () => {
+      expect(diffLabels([], [bug, bug]).missing).toEqual([bug]);
+    });
+
+    it('should ignore labels already up to date, whatever the case', () => {
+      const existing = [{ name: 'Type:Bug', color: 'B60205', description: 'Bug report' }];
+
+      expect(diffLabels(existing, [bug])).toEqual({ missing: [], drifted: [] });
+    });
+
+    it('should list labels whose color or description drifted under their current name', () => {
+      const existing = [
+        { name: 'Type:Bug', color: 'ff0000', description: 'Bug report' },
+        { ...task, description: 'Old' },
+      ];
+
+      expect(diffLabels(existing, [bug, task]).drifted).toEqual([
+        { ...bug, name: 'Type:Bug' },
+        task,
+      ]);
+    });
+  });
 });
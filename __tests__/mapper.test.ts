@@ -6,13 +6,21 @@ import {
   removeMapping,
   getCommentMapping,
   setCommentMapping,
+  removeCommentMapping,
   serializeMapping,
   deserializeMapping,
   getMappedBeadsIds,
   buildMappingFromGitHubIssues,
+  migrateMapping,
+  reconcileMapping,
+  createIssueMapping,
+  pickCanonicalIssue,
+  updateLastSyncTime,
+  MAPPING_VERSION,
 } from '../src/mapper';
 import { MappingFile, IssueMapping } from '../src/types';
 import { GitHubIssue } from '../src/github';
+import { renderSyncState } from '../src/state';
 
 describe('mapper', () => {
   describe('createEmptyMapping', () => {
@@ -97,6 +105,16 @@ describe('mapper', () => {
       expect(getCommentMapping(mapping, 'bd-abc', '1')).toBe(999888);
     });
 
+    it('should remove a comment mapping', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-abc', createIssueMapping(42, 123456, '2025-11-25T10:00:00Z'));
+      setCommentMapping(mapping, 'bd-abc', '1', 999888, 'hash');
+
+      removeCommentMapping(mapping, 'bd-abc', '1');
+
+      expect(getCommentMapping(mapping, 'bd-abc', '1')).toBeUndefined();
+    });
+
     it('should not set comment mapping if issue mapping does not exist', () => {
       const mapping = createEmptyMapping();
 
@@ -153,6 +171,137 @@ describe('mapper', () => {
     });
   });
 
+  describe('migrateMapping', () => {
+    it('should keep a current mapping file unchanged', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-abc', createIssueMapping(42, 100, '2025-01-01T00:00:00Z'));
+
+      expect(migrateMapping(mapping)).toEqual(mapping);
+    });
+
+    it('should fill in missing comments and metadata', () => {
+      const legacy = {
+        version: MAPPING_VERSION,
+        mappings: {
+          'bd-abc': {
+            github_issue_number: 42,
+            github_issue_id: 100,
+            last_sync_at: '2025-01-01T00:00:00Z',
+            beads_updated_at: '2025-01-01T00:00:00Z',
+            adopted_from_external_ref: false,
+          },
+        },
+      } as unknown as MappingFile;
+
+      const migrated = migrateMapping(legacy);
+
+      expect(migrated.mappings['bd-abc'].comments).toEqual({});
+      expect(migrated.sync_metadata.last_full_sync).toBeDefined();
+    });
+
+    it('should refuse mapping files from a newer version', () => {
+      const mapping = { ...createEmptyMapping(), version: MAPPING_VERSION + 1 };
+
+      expect(() => migrateMapping(mapping)).toThrow(/newer/);
+      expect(() => deserializeMapping(serializeMapping(mapping))).toThrow(/newer/);
+    });
+  });
+
+  describe('reconcileMapping', () => {
+    it('should add scanned issues missing from the stored mapping', () => {
+      const stored = createEmptyMapping();
+      const scanned = createEmptyMapping();
+      setMapping(scanned, 'bd-new', createIssueMapping(7, 700, '2025-01-01T00:00:00Z'));
+
+      const reconciled = reconcileMapping(stored, scanned);
+
+      expect(getMapping(reconciled, 'bd-new')?.github_issue_number).toBe(7);
+    });
+
+    it('should keep stored issues that were not scanned', () => {
+      const stored = createEmptyMapping();
+      setMapping(stored, 'bd-old', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+
+      const reconciled = reconcileMapping(stored, createEmptyMapping());
+
+      expect(getMapping(reconciled, 'bd-old')?.github_issue_number).toBe(1);
+    });
+
+    it('should prefer scanned sync state and merge comment mappings', () => {
+      const stored = createEmptyMapping();
+      const storedMapping = createIssueMapping(1, 100, '2025-01-01T00:00:00Z', false, 'old');
+      storedMapping.comments['c1'] = { github_comment_id: 11 };
+      setMapping(stored, 'bd-abc', storedMapping);
+
+      const scanned = createEmptyMapping();
+      const scannedMapping = createIssueMapping(1, 100, '2025-01-02T00:00:00Z', false, 'new');
+      scannedMapping.comments['c2'] = { github_comment_id: 22 };
+      setMapping(scanned, 'bd-abc', scannedMapping);
+
+      const reconciled = reconcileMapping(stored, scanned);
+
+      expect(getMapping(reconciled, 'bd-abc')?.beads_updated_at).toBe('2025-01-02T00:00:00Z');
+      expect(getMapping(reconciled, 'bd-abc')?.content_hash).toBe('new');
+      expect(getCommentMapping(reconciled, 'bd-abc', 'c1')).toBe(11);
+      expect(getCommentMapping(reconciled, 'bd-abc', 'c2')).toBe(22);
+    });
+
+    it('should keep stored timestamps when the scanned body has no sync state', () => {
+      const stored = createEmptyMapping();
+      setMapping(stored, 'bd-abc', createIssueMapping(1, 100, '2025-01-02T00:00:00Z', false, 'hash'));
+      const scanned = buildMappingFromGitHubIssues([
+        { number: 1, id: 100, state: 'open', title: '[bd-abc] Issue', body: null, labels: [] },
+      ]);
+
+      const reconciled = reconcileMapping(stored, scanned);
+
+      expect(getMapping(reconciled, 'bd-abc')?.beads_updated_at).toBe('2025-01-02T00:00:00Z');
+      expect(getMapping(reconciled, 'bd-abc')?.content_hash).toBe('hash');
+    });
+
+    it('should keep an updated issue claiming a stored beads ID as duplicate', () => {
+      const stored = createEmptyMapping();
+      setMapping(stored, 'bd-abc', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+      const scanned = createEmptyMapping();
+      setMapping(scanned, 'bd-abc', createIssueMapping(9, 900, '2025-01-02T00:00:00Z'));
+
+      const reconciled = reconcileMapping(stored, scanned);
+
+      expect(getMapping(reconciled, 'bd-abc')?.github_issue_number).toBe(1);
+      expect(getMapping(reconciled, 'bd-abc')?.duplicates?.map((d) => d.github_issue_number)).toEqual([9]);
+    });
+  });
+
+  describe('pickCanonicalIssue', () => {
+    const candidate = (number: number, state: 'open' | 'closed' = 'open'): IssueMapping => ({
+      ...createIssueMapping(number, number * 100, '2025-01-01T00:00:00Z'),
+      github_state: state,
+    });
+
+    it('should prefer the adopted issue, then open issues, then the oldest', () => {
+      const candidates = [candidate(3), candidate(1, 'closed'), candidate(2)];
+
+      expect(pickCanonicalIssue(candidates).github_issue_number).toBe(2);
+      expect(pickCanonicalIssue(candidates, 1).github_issue_number).toBe(1);
+      expect(
+        pickCanonicalIssue(candidates).duplicates?.map((d) => d.github_issue_number)
+      ).toEqual([3, 1]);
+    });
+
+    it('should not nest duplicates', () => {
+      const canonical = pickCanonicalIssue([candidate(2), candidate(1)]);
+
+      const repicked = pickCanonicalIssue([canonical, ...canonical.duplicates!], 2);
+
+      expect(repicked.github_issue_number).toBe(2);
+      expect(repicked.duplicates).toEqual([candidate(1)]);
+    });
+
+    it('should return a single candidate without duplicates', () => {
+      expect(pickCanonicalIssue([candidate(1)]).duplicates).toBeUndefined();
+    });
+  });
+
   describe('getMappedBeadsIds', () => {
     it('should return empty array for empty mapping', () => {
       const mapping = createEmptyMapping();
@@ -187,6 +336,16 @@ describe('mapper', () => {
     });
   });
 
+  describe('updateLastSyncTime', () => {
+    it('should record the given start time of the run', () => {
+      const mapping = createEmptyMapping();
+
+      updateLastSyncTime(mapping, '2025-06-01T10:00:00.000Z');
+
+      expect(mapping.sync_metadata.last_full_sync).toBe('2025-06-01T10:00:00.000Z');
+    });
+  });
+
   describe('buildMappingFromGitHubIssues', () => {
     const makeGitHubIssue = (
       number: number,
@@ -291,6 +450,79 @@ describe('mapper', () => {
       expect(getMapping(mapping, 'bd-closed')).toBeDefined();
     });
 
+    it('should carry the GitHub issue state', () => {
+      const issues = [
+        makeGitHubIssue(1, ['beads-synced', 'beads-id:bd-open'], '', 'open'),
+        makeGitHubIssue(2, ['beads-synced', 'beads-id:bd-closed'], '', 'closed'),
+      ];
+
+      const mapping = buildMappingFromGitHubIssues(issues, undefined, 'label');
+
+      expect(getMapping(mapping, 'bd-open')?.github_state).toBe('open');
+      expect(getMapping(mapping, 'bd-closed')?.github_state).toBe('closed');
+    });
+
+    it('should keep issues claiming the same beads ID as duplicates', () => {
+      const issues = [
+        makeGitHubIssue(5, [], 'bd-dup'),
+        makeGitHubIssue(2, [], 'bd-dup', 'closed'),
+        makeGitHubIssue(8, [], 'bd-dup'),
+      ];
+
+      const mapping = buildMappingFromGitHubIssues(issues);
+
+      expect(getMapping(mapping, 'bd-dup')?.github_issue_number).toBe(5);
+      expect(getMapping(mapping, 'bd-dup')?.duplicates?.map((d) => d.github_issue_number)).toEqual([
+        8, 2,
+      ]);
+    });
+
+    it('should accept custom prefixes and hierarchical IDs', () => {
+      const issues = [
+        makeGitHubIssue(1, [], 'proj-a3f.1.2'),
+        makeGitHubIssue(2, ['beads-id:my-app-x7k2.3']),
+        { ...makeGitHubIssue(3, []), body: '<!-- beads-sync:proj-a3f.1 -->\n\nBody' },
+      ];
+
+      const mapping = buildMappingFromGitHubIssues(issues);
+
+      expect(getMapping(mapping, 'proj-a3f.1.2')?.github_issue_number).toBe(1);
+      expect(getMapping(mapping, 'my-app-x7k2.3')?.github_issue_number).toBe(2);
+      expect(getMapping(mapping, 'proj-a3f.1')?.github_issue_number).toBe(3);
+    });
+
+    it('should identify issues by their body marker with the body mapping base', () => {
+      const issue = {
+        ...makeGitHubIssue(1, ['beads-id:bd-label'], 'bd-title'),
+        body: '<!-- beads-sync:bd-body -->\n\nBody',
+      };
+
+      expect(getMappedBeadsIds(buildMappingFromGitHubIssues([issue], '', 'body'))).toEqual(['bd-body']);
+      expect(getMappedBeadsIds(buildMappingFromGitHubIssues([issue], '', 'label'))).toEqual(['bd-label']);
+      expect(getMappedBeadsIds(buildMappingFromGitHubIssues([issue], '', 'title'))).toEqual(['bd-title']);
+    });
+
+    it('should fall back to the other sources of the beads ID', () => {
+      const issues = [
+        makeGitHubIssue(1, ['beads-id:bd-label']),
+        makeGitHubIssue(2, [], 'bd-title'),
+        { ...makeGitHubIssue(3, []), title: 'Renamed', body: '<!-- beads-sync:bd-body -->' },
+      ];
+
+      for (const base of ['title', 'label', 'body'] as const) {
+        const mapping = buildMappingFromGitHubIssues(issues, '', base);
+        expect(getMappedBeadsIds(mapping).sort()).toEqual(['bd-body', 'bd-label', 'bd-title']);
+      }
+    });
+
+    it('should ignore bracketed titles that are not beads IDs', () => {
+      const mapping = buildMappingFromGitHubIssues([
+        { ...makeGitHubIssue(1, []), title: '[WIP] Draft' },
+      ]);
+
+      expect(getMappedBeadsIds(mapping)).toEqual([]);
+    });
+
     it('should set beads_updated_at to epoch to trigger update', () => {
       const issues = [makeGitHubIssue(1, ['beads-id:bd-test'])];
 
@@ -298,5 +530,28 @@ describe('mapper', () => {
 
       expect(getMapping(mapping, 'bd-test')?.beads_updated_at).toBe('1970-01-01T00:00:00Z');
     });
+
+    it('should restore sync state embedded in the issue body', () => {
+      const issue = makeGitHubIssue(1, ['beads-id:bd-test']);
+      issue.body = `Content\n\n${renderSyncState({
+        beads_updated_at: '2025-01-02T00:00:00Z',
+        content_hash: 'hash',
+        comments: { c1: { github_comment_id: 555 } },
+        parent_issue_number: 7,
+        synced_labels: ['beads-synced', 'frontend'],
+        cross_links: { 'relates-to:bd-other': { github_comment_id: 777 } },
+      })}`;
+
+      const mapping = buildMappingFromGitHubIssues([issue], undefined, 'label');
+
+      expect(getMapping(mapping, 'bd-test')?.beads_updated_at).toBe('2025-01-02T00:00:00Z');
+      expect(getMapping(mapping, 'bd-test')?.content_hash).toBe('hash');
+      expect(getMapping(mapping, 'bd-test')?.parent_issue_number).toBe(7);
+      expect(getMapping(mapping, 'bd-test')?.synced_labels).toEqual(['beads-synced', 'frontend']);
+      expect(getMapping(mapping, 'bd-test')?.cross_links).toEqual({
+        'relates-to:bd-other': { github_comment_id: 777 },
+      });
+      expect(getCommentMapping(mapping, 'bd-test', 'c1')).toBe(555);
+    });
   });
 });
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { migrateMappingBase, planIssueMigration } from '../src/migrate';
+import { SyncConfig } from '../src/types';
+import { GitHubClient, GitHubIssue } from '../src/github';
+
+describe('migrate', () => {
+  const makeIssue = (number: number, overrides: Partial<GitHubIssue> = {}): GitHubIssue => ({
+    number,
+    id: number * 100,
+    state: 'open',
+    title: `Issue ${number}`,
+    body: null,
+    labels: ['beads-synced'],
+    ...overrides,
+  });
+
+  describe('planIssueMigration', () => {
+    const issue = makeIssue(1, {
+      title: '[bd-a3f.1] Fix login',
+      labels: ['beads-synced', 'triage'],
+      body: '<!-- beads-sync:bd-a3f.1 -->\n\nBody',
+    });
+
+    it('should move the beads ID from the title to a label', () => {
+      expect(planIssueMigration(issue, 'bd-a3f.1', 'label')).toEqual({
+        title: 'Fix login',
+        labels: ['beads-synced', 'triage', 'beads-id:bd-a3f.1'],
+      });
+    });
+
+    it('should move the beads ID from a label to the title', () => {
+      const labeled = { ...issue, title: 'Fix login', labels: ['x-beads-id:bd-a3f.1', 'triage'] };
+
+      expect(planIssueMigration(labeled, 'bd-a3f.1', 'title', 'x-')).toEqual({
+        title: '[bd-a3f.1] Fix login',
+        labels: ['triage'],
+      });
+    });
+
+    it('should restore a missing body marker for the body mapping base', () => {
+      expect(planIssueMigration({ ...issue, body: 'Edited' }, 'bd-a3f.1', 'body')).toEqual({
+        title: 'Fix login',
+        body: '<!-- beads-sync:bd-a3f.1 -->\n\nEdited',
+      });
+    });
+
+    it('should return null for issues already following the mapping base', () => {
+      expect(planIssueMigration(issue, 'bd-a3f.1', 'title')).toBeNull();
+    });
+  });
+
+  describe('migrateMappingBase', () => {
+    let mockClient: {
+      listIssuesByLabel: ReturnType<typeof vi.fn>;
+      updateIssue: ReturnType<typeof vi.fn>;
+    };
+
+    const config = {
+      labelPrefix: '',
+      mappingBase: 'label',
+      dryRun: false,
+    } as SyncConfig;
+
+    beforeEach(() => {
+      mockClient = {
+        listIssuesByLabel: vi.fn().mockResolvedValue([
+          makeIssue(1, { title: '[bd-one] One' }),
+          makeIssue(2, { labels: ['beads-synced', 'beads-id:bd-two'] }),
+          makeIssue(3, { title: '[bd-three] Three', labels: ['beads-id:bd-other'] }),
+          makeIssue(4, { title: '[bd-dup] Dup' }),
+          makeIssue(5, { body: '<!-- beads-sync:bd-dup -->' }),
+          makeIssue(6),
+        ]),
+        updateIssue: vi.fn().mockResolvedValue({}),
+      };
+    });
+
+    it('should rewrite identified issues and report conflicts', async () => {
+      const result = await migrateMappingBase(mockClient as unknown as GitHubClient, config);
+
+      expect(mockClient.listIssuesByLabel).toHaveBeenCalledWith('beads-synced');
+      expect(mockClient.updateIssue).toHaveBeenCalledTimes(1);
+      expect(mockClient.updateIssue).toHaveBeenCalledWith({
+        issueNumber: 1,
+        title: 'One',
+        labels: ['beads-synced', 'beads-id:bd-one'],
+      });
+      expect(result.migrated).toBe(1);
+      expect(result.unchanged).toBe(1);
+      expect(result.conflicts).toEqual([
+        {
+          issueNumbers: [3],
+          beadsIds: ['bd-three', 'bd-other'],
+          reason: 'title says bd-three, label says bd-other',
+        },
+        { issueNumbers: [6], beadsIds: [], reason: 'no beads ID in title, labels or body' },
+        { issueNumbers: [4, 5], beadsIds: ['bd-dup'], reason: '2 issues claim bd-dup' },
+      ]);
+    });
+
+    it('should not update issues in dry-run mode', async () => {
+      const result = await migrateMappingBase(mockClient as unknown as GitHubClient, {
+        ...config,
+        dryRun: true,
+      });
+
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+      expect(result.migrated).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, planIssueChange, planCommentChanges, renderPlanMarkdown } from '../src/plan';
+import { DiffResult, SyncPlan } from '../src/types';
+import { GitHubIssue } from '../src/github';
+
+describe('plan', () => {
+  const githubIssue: GitHubIssue = {
+    number: 42,
+    id: 4200,
+    state: 'open',
+    title: '[bd-1] Old title',
+    body: 'Intro\nOld line\nOutro',
+    labels: ['beads-synced', 'priority:p2'],
+    assignees: ['octocat'],
+  };
+
+  describe('diffLines', () => {
+    it('should list removed and added lines only', () => {
+      expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toBe('-b\n+B\n+d');
+    });
+
+    it('should return an empty diff for identical texts', () => {
+      expect(diffLines('a\nb', 'a\nb')).toBe('');
+    });
+
+    it('should list all lines of a new text', () => {
+      expect(diffLines('', 'a\nb')).toBe('+a\n+b');
+    });
+
+    it('should not compare every line pair of large bodies', () => {
+      const before = Array.from({ length: 2000 }, (_, i) => `old ${i}`);
+      const after = Array.from({ length: 2000 }, (_, i) => `new ${i}`);
+
+      const diff = diffLines(
+        ['head', ...before, 'tail'].join('\n'),
+        ['head', ...after, 'tail'].join('\n')
+      );
+
+      expect(diff.split('\n')).toEqual([
+        ...before.map((line) => `-${line}`),
+        ...after.map((line) => `+${line}`),
+      ]);
+    });
+  });
+
+  describe('planIssueChange', () => {
+    it('should snapshot the issue before and after the change', () => {
+      const change = planIssueChange(
+        { type: 'update', beads_id: 'bd-1', github_issue_number: 42, reason: 'Beads issue updated' },
+        githubIssue,
+        {
+          title: '[bd-1] New title',
+          body: 'Intro\nNew line\nOutro',
+          labels: ['beads-synced', 'priority:p0'],
+          assignees: [],
+          state: 'open',
+        }
+      );
+
+      expect(change.before).toEqual({
+        title: '[bd-1] Old title',
+        state: 'open',
+        labels: ['beads-synced', 'priority:p2'],
+        assignees: ['octocat'],
+      });
+      expect(change.after.title).toBe('[bd-1] New title');
+      expect(change.body_diff).toBe('-Old line\n+New line');
+    });
+
+    it('should have no before snapshot for created issues', () => {
+      const change = planIssueChange(
+        { type: 'create', beads_id: 'bd-2', reason: 'New beads issue' },
+        null,
+        { title: 'New', body: 'Body', labels: [], assignees: [], state: 'open' }
+      );
+
+      expect(change.before).toBeNull();
+      expect(change.body_diff).toBe('+Body');
+    });
+  });
+
+  describe('planCommentChanges', () => {
+    it('should list created, updated and deleted comments', () => {
+      const comment = { id: 'c1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' };
+      const diff: DiffResult = {
+        actions: [],
+        commentActions: [{ beadsIssueId: 'bd-1', githubIssueNumber: 42, comment }],
+        commentUpdateActions: [
+          { beadsIssueId: 'bd-1', githubIssueNumber: 42, githubCommentId: 7, comment },
+        ],
+        commentDeleteActions: [
+          { beadsIssueId: 'bd-1', githubIssueNumber: 42, githubCommentId: 8, commentId: 'c2' },
+        ],
+        deletedIssueIds: [],
+      };
+
+      expect(planCommentChanges(diff).map((c) => [c.type, c.comment_id, c.github_comment_id])).toEqual([
+        ['create', 'c1', undefined],
+        ['update', 'c1', 7],
+        ['delete', 'c2', 8],
+      ]);
+    });
+  });
+
+  describe('renderPlanMarkdown', () => {
+    it('should render a table and the details of each change', () => {
+      const plan: SyncPlan = {
+        repository: 'owner/repo',
+        issues: [
+          planIssueChange(
+            { type: 'close', beads_id: 'bd-1', github_issue_number: 42, reason: 'Beads issue closed' },
+            githubIssue,
+            {
+              title: '[bd-1] Old title',
+              body: 'Intro\nOld line\nOutro',
+              labels: ['beads-synced', 'priority:p1'],
+              assignees: ['octocat'],
+              state: 'closed',
+            }
+          ),
+        ],
+        comments: [],
+      };
+
+      const markdown = renderPlanMarkdown(plan);
+
+      expect(markdown).toContain('## Planned sync changes for owner/repo');
+      expect(markdown).toContain('| close | bd-1 | #42 | Beads issue closed |');
+      expect(markdown).toContain('- **State:** open → closed');
+      expect(markdown).toContain('- **Labels added:** `priority:p1`');
+      expect(markdown).toContain('- **Labels removed:** `priority:p2`');
+      expect(markdown).not.toContain('**Title:**');
+      expect(markdown).not.toContain('```diff');
+    });
+
+    it('should list the title matches not adopted', () => {
+      const markdown = renderPlanMarkdown({
+        repository: 'owner/repo',
+        issues: [],
+        comments: [],
+        title_matches: [
+          { beads_id: 'bd-1', github_issue_number: 12, github_title: 'Fix the login', score: 0.82 },
+        ],
+      });
+
+      expect(markdown).not.toContain('No changes.');
+      expect(markdown).toContain('### Possible title matches (not adopted)');
+      expect(markdown).toContain('| bd-1 | #12 | Fix the login | 0.82 |');
+    });
+
+    it('should fence body diffs longer than the backtick runs they contain', () => {
+      const markdown = renderPlanMarkdown({
+        repository: 'owner/repo',
+        issues: [
+          planIssueChange(
+            { type: 'update', beads_id: 'bd-1', github_issue_number: 42, reason: 'test' },
+            githubIssue,
+            { ...githubIssue, body: '```ts\ncode\n```', assignees: [], state: 'open' }
+          ),
+        ],
+        comments: [],
+      });
+
+      expect(markdown).toContain('````diff\n');
+      expect(markdown).toContain('+```\n````');
+    });
+
+    it('should say when there is nothing to change', () => {
+      expect(renderPlanMarkdown({ repository: 'owner/repo', issues: [], comments: [] })).toContain(
+        'No changes.'
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { postPreviewComment, renderPreviewComment, PREVIEW_COMMENT_MARKER } from '../src/preview';
+import { PlannedIssueChange, SyncPlan } from '../src/types';
+import { GitHubClient } from '../src/github';
+
+describe('preview', () => {
+  const makeChange = (
+    type: PlannedIssueChange['type'],
+    beadsId: string
+  ): PlannedIssueChange => ({
+    type,
+    beads_id: beadsId,
+    github_issue_number: type === 'create' ? undefined : 42,
+    reason: 'test',
+    before: null,
+    after: { title: beadsId, state: 'open', labels: [], assignees: [] },
+    body_diff: '',
+  });
+
+  const plan: SyncPlan = {
+    repository: 'owner/repo',
+    issues: [
+      makeChange('create', 'bd-1'),
+      makeChange('create', 'bd-2'),
+      makeChange('close', 'bd-3'),
+      makeChange('close-deleted', 'bd-4'),
+    ],
+    comments: [],
+  };
+
+  describe('renderPreviewComment', () => {
+    it('should count the planned changes by action', () => {
+      const comment = renderPreviewComment(plan);
+
+      expect(comment.startsWith(PREVIEW_COMMENT_MARKER)).toBe(true);
+      expect(comment).toContain('| created | 2 |');
+      expect(comment).toContain('| closed | 1 |');
+      expect(comment).toContain('| closed (deleted from beads) | 1 |');
+      expect(comment).toContain('| reopened | 0 |');
+      expect(comment).toContain('| create | bd-1 | new | test |');
+    });
+
+    it('should warn about closures only when issues are closed', () => {
+      const quiet: SyncPlan = { ...plan, issues: [makeChange('update', 'bd-1')] };
+
+      expect(renderPreviewComment(plan)).toContain('will close 2 GitHub issue(s)');
+      expect(renderPreviewComment(quiet)).not.toContain('[!WARNING]');
+    });
+
+    it('should leave out the details of a plan too large for a comment', () => {
+      const large: SyncPlan = {
+        ...plan,
+        issues: [{ ...makeChange('update', 'bd-1'), body_diff: '+line\n'.repeat(20_000) }],
+      };
+
+      const comment = renderPreviewComment(large, 'plan.json');
+
+      expect(comment.length).toBeLessThan(65_536);
+      expect(comment).toContain('| updated | 1 |');
+      expect(comment).toContain('see `plan.json` in the workflow run');
+      expect(comment).not.toContain('<details>');
+    });
+  });
+
+  describe('postPreviewComment', () => {
+    const makeClient = (comments: Array<{ id: number; body: string }>) => ({
+      listIssueComments: vi.fn().mockResolvedValue(comments),
+      createComment: vi.fn().mockResolvedValue({ id: 1 }),
+      updateComment: vi.fn().mockResolvedValue(undefined),
+    });
+
+    it('should create the preview comment', async () => {
+      const client = makeClient([{ id: 5, body: 'Looks good' }]);
+
+      await postPreviewComment(client as unknown as GitHubClient, 7, plan);
+
+      expect(client.listIssueComments).toHaveBeenCalledWith(7);
+      expect(client.createComment).toHaveBeenCalledWith(7, renderPreviewComment(plan));
+      expect(client.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('should update the previous preview comment in place', async () => {
+      const client = makeClient([
+        { id: 5, body: 'Looks good' },
+        { id: 6, body: `${PREVIEW_COMMENT_MARKER}\nOld preview` },
+      ]);
+
+      await postPreviewComment(client as unknown as GitHubClient, 7, plan);
+
+      expect(client.updateComment).toHaveBeenCalledWith(6, renderPreviewComment(plan));
+      expect(client.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should not comment on pull requests changing nothing', async () => {
+      const client = makeClient([]);
+
+      await postPreviewComment(client as unknown as GitHubClient, 7, { ...plan, issues: [] });
+
+      expect(client.createComment).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when the token cannot comment', async () => {
+      const client = makeClient([]);
+      client.createComment.mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 }));
+
+      await expect(
+        postPreviewComment(client as unknown as GitHubClient, 7, plan)
+      ).resolves.toBeUndefined();
+    });
+  });
+});
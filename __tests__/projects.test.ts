@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parseProjectUrl,
+  parseEstimate,
+  getProjectFieldValues,
+  syncProjectItems,
+} from '../src/projects';
+import { BeadsIssue, MappingFile, SyncConfig } from '../src/types';
+import { GitHubClient, Project } from '../src/github';
+import { createEmptyMapping, setMapping, createIssueMapping, getMapping } from '../src/mapper';
+
+describe('projects', () => {
+  const project: Project = {
+    id: 'PVT_1',
+    fields: [
+      {
+        id: 'F_priority',
+        name: 'Priority',
+        dataType: 'SINGLE_SELECT',
+        options: [
+          { id: 'O_p0', name: 'P0' },
+          { id: 'O_p1', name: 'P1' },
+        ],
+      },
+      {
+        id: 'F_status',
+        name: 'Status',
+        dataType: 'SINGLE_SELECT',
+        options: [
+          { id: 'O_todo', name: 'Todo' },
+          { id: 'O_progress', name: 'In Progress' },
+          { id: 'O_done', name: 'Done' },
+        ],
+      },
+      { id: 'F_estimate', name: 'Estimate', dataType: 'NUMBER' },
+    ],
+  };
+
+  const fieldNames = {
+    priority: 'Priority',
+    status: 'Status',
+    type: 'Type',
+    estimate: 'Estimate',
+  };
+
+  const makeIssue = (id: string, overrides: Partial<BeadsIssue> = {}): BeadsIssue => ({
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  describe('parseProjectUrl', () => {
+    it('should parse organization and user project URLs', () => {
+      expect(parseProjectUrl('https://github.com/orgs/acme/projects/5')).toEqual({
+        ownerType: 'organization',
+        login: 'acme',
+        number: 5,
+      });
+      expect(parseProjectUrl('https://github.com/users/octocat/projects/12/views/1')).toEqual({
+        ownerType: 'user',
+        login: 'octocat',
+        number: 12,
+      });
+    });
+
+    it('should return null for other URLs', () => {
+      expect(parseProjectUrl('https://github.com/acme/repo/issues/5')).toBeNull();
+    });
+  });
+
+  describe('parseEstimate', () => {
+    it('should parse estimates into hours', () => {
+      expect(parseEstimate('90m')).toBe(1.5);
+      expect(parseEstimate('1.5h')).toBe(1.5);
+      expect(parseEstimate('2d')).toBe(16);
+      expect(parseEstimate('1w')).toBe(40);
+      expect(parseEstimate('3')).toBe(3);
+    });
+
+    it('should return null for unparseable estimates', () => {
+      expect(parseEstimate('a while')).toBeNull();
+    });
+  });
+
+  describe('getProjectFieldValues', () => {
+    it('should match options by name and aliases', () => {
+      const issue = makeIssue('bd-1', { priority: 1, status: 'in_progress', estimated_time: '2h' });
+
+      expect(getProjectFieldValues(issue, project, fieldNames)).toEqual([
+        { fieldId: 'F_priority', value: { singleSelectOptionId: 'O_p1' } },
+        { fieldId: 'F_status', value: { singleSelectOptionId: 'O_progress' } },
+        { fieldId: 'F_estimate', value: { number: 2 } },
+      ]);
+    });
+
+    it('should skip missing fields, unmatched options and disabled fields', () => {
+      const issue = makeIssue('bd-1', { priority: 4, status: 'closed', issue_type: 'bug' });
+
+      expect(getProjectFieldValues(issue, project, { ...fieldNames, status: '' })).toEqual([]);
+    });
+  });
+
+  describe('syncProjectItems', () => {
+    let mockClient: {
+      getProject: ReturnType<typeof vi.fn>;
+      getIssue: ReturnType<typeof vi.fn>;
+      addProjectItem: ReturnType<typeof vi.fn>;
+      updateProjectItemField: ReturnType<typeof vi.fn>;
+    };
+    let mapping: MappingFile;
+    const config = {
+      dryRun: false,
+      projectUrl: 'https://github.com/orgs/acme/projects/5',
+      projectFields: fieldNames,
+    } as SyncConfig;
+
+    beforeEach(() => {
+      mockClient = {
+        getProject: vi.fn().mockResolvedValue(project),
+        getIssue: vi.fn().mockResolvedValue({ number: 42, id: 4200, node_id: 'I_42' }),
+        addProjectItem: vi.fn().mockResolvedValue('PVTI_42'),
+        updateProjectItemField: vi.fn().mockResolvedValue(undefined),
+      };
+      mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-1', createIssueMapping(42, 4200, '2025-01-01T00:00:00Z'));
+    });
+
+    it('should add new issues to the project and set their fields', async () => {
+      const result = await syncProjectItems(
+        [makeIssue('bd-1', { priority: 0 })],
+        new Set(),
+        mapping,
+        mockClient as unknown as GitHubClient,
+        config
+      );
+
+      expect(mockClient.getProject).toHaveBeenCalledWith('organization', 'acme', 5);
+      expect(mockClient.addProjectItem).toHaveBeenCalledWith('PVT_1', 'I_42');
+      expect(mockClient.updateProjectItemField).toHaveBeenCalledWith(
+        'PVT_1',
+        'PVTI_42',
+        'F_priority',
+        { singleSelectOptionId: 'O_p0' }
+      );
+      expect(result).toEqual({ synced: 1, addedIds: ['bd-1'] });
+      expect(getMapping(mapping, 'bd-1')?.project_item).toEqual({
+        project_id: 'PVT_1',
+        item_id: 'PVTI_42',
+      });
+    });
+
+    it('should only update the fields of items whose issue changed', async () => {
+      getMapping(mapping, 'bd-1')!.project_item = { project_id: 'PVT_1', item_id: 'PVTI_42' };
+      const issues = [makeIssue('bd-1', { priority: 0 })];
+
+      const unchanged = await syncProjectItems(
+        issues,
+        new Set(),
+        mapping,
+        mockClient as unknown as GitHubClient,
+        config
+      );
+      const changed = await syncProjectItems(
+        issues,
+        new Set(['bd-1']),
+        mapping,
+        mockClient as unknown as GitHubClient,
+        config
+      );
+
+      expect(unchanged.synced).toBe(0);
+      expect(changed).toEqual({ synced: 1, addedIds: [] });
+      expect(mockClient.addProjectItem).not.toHaveBeenCalled();
+      // Priority and status, once
+      expect(mockClient.updateProjectItemField).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-add items tracked in another project', async () => {
+      getMapping(mapping, 'bd-1')!.project_item = { project_id: 'PVT_old', item_id: 'PVTI_old' };
+
+      await syncProjectItems(
+        [makeIssue('bd-1')],
+        new Set(),
+        mapping,
+        mockClient as unknown as GitHubClient,
+        config
+      );
+
+      expect(mockClient.addProjectItem).toHaveBeenCalledWith('PVT_1', 'I_42');
+    });
+
+    it('should not change the project in dry-run mode', async () => {
+      const result = await syncProjectItems(
+        [makeIssue('bd-1')],
+        new Set(),
+        mapping,
+        mockClient as unknown as GitHubClient,
+        { ...config, dryRun: true }
+      );
+
+      expect(mockClient.addProjectItem).not.toHaveBeenCalled();
+      expect(result.synced).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRetryDelay, RequestPolicy } from '../src/ratelimit';
+
+describe('ratelimit', () => {
+  const httpError = (status: number, headers: Record<string, string> = {}, message = '') =>
+    Object.assign(new Error(message), { status, response: { headers } });
+
+  describe('getRetryDelay', () => {
+    it('should honor the Retry-After header', () => {
+      expect(getRetryDelay(httpError(403, { 'retry-after': '30' }), 0)).toBe(30_000);
+    });
+
+    it('should wait for the reset of an exhausted primary rate limit', () => {
+      const error = httpError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1100' });
+
+      expect(getRetryDelay(error, 0, 1_000_000)).toBe(101_000);
+    });
+
+    it('should back off exponentially on secondary rate limits and server errors', () => {
+      const secondary = httpError(403, {}, 'You have exceeded a secondary rate limit');
+
+      expect(getRetryDelay(secondary, 0)).toBe(60_000);
+      expect(getRetryDelay(secondary, 1)).toBe(120_000);
+      expect(getRetryDelay(httpError(429), 0)).toBe(60_000);
+      expect(getRetryDelay(httpError(502), 2)).toBe(4_000);
+      expect(getRetryDelay(httpError(502), 0, 0, 'PATCH')).toBe(1_000);
+    });
+
+    it('should only retry server errors of idempotent requests', () => {
+      expect(getRetryDelay(httpError(502), 0, 0, 'POST')).toBeNull();
+      expect(getRetryDelay(httpError(429), 0, 0, 'POST')).toBe(60_000);
+    });
+
+    it('should not retry other errors', () => {
+      expect(getRetryDelay(httpError(403, {}, 'Resource not accessible by integration'), 0)).toBeNull();
+      expect(getRetryDelay(httpError(404), 0)).toBeNull();
+      expect(getRetryDelay(new Error('network'), 0)).toBeNull();
+    });
+  });
+
+  describe('RequestPolicy', () => {
+    const makePolicy = (options = {}) => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const policy = new RequestPolicy({ sleep, now: () => 0, ...options });
+      return { policy, sleep };
+    };
+
+    it('should retry failed requests until they succeed', async () => {
+      const { policy, sleep } = makePolicy();
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(500))
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+        .mockResolvedValue('ok');
+
+      await expect(policy.send('GET', request)).resolves.toBe('ok');
+      expect(sleep).toHaveBeenCalledWith(1_000);
+      expect(sleep).toHaveBeenCalledWith(2_000);
+      expect(policy.callCount).toBe(3);
+    });
+
+    it('should give up after the maximum number of retries or a too long delay', async () => {
+      const { policy } = makePolicy({ maxRetries: 1 });
+      const failing = vi.fn().mockRejectedValue(httpError(503));
+
+      await expect(policy.send('GET', failing)).rejects.toMatchObject({ status: 503 });
+      expect(failing).toHaveBeenCalledTimes(2);
+
+      const limited = vi.fn().mockRejectedValue(httpError(403, { 'retry-after': '3600' }));
+      await expect(policy.send('GET', limited)).rejects.toMatchObject({ status: 403 });
+      expect(limited).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a POST failing with a server error', async () => {
+      const { policy } = makePolicy();
+      const failing = vi.fn().mockRejectedValue(httpError(504));
+
+      await expect(policy.send('POST', failing)).rejects.toMatchObject({ status: 504 });
+      expect(failing).toHaveBeenCalledTimes(1);
+    });
+
+    it('should space content-creating requests', async () => {
+      const { policy, sleep } = makePolicy({ writeIntervalMs: 500 });
+      const request = vi.fn().mockResolvedValue('ok');
+
+      await policy.send('GET', request);
+      await policy.send('POST', request);
+      await policy.send('GET', request);
+      await policy.send('PATCH', request);
+
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(sleep).toHaveBeenCalledWith(500);
+    });
+
+    it('should report when the call budget is used up', async () => {
+      const { policy } = makePolicy({ budget: 2 });
+      const request = vi.fn().mockResolvedValue('ok');
+
+      await policy.send('GET', request);
+      expect(policy.exhausted).toBe(false);
+      await policy.send('GET', request);
+      expect(policy.exhausted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  computeReverseDiff,
+  applyMutations,
+  applyMutationsToJsonl,
+  serializeMutations,
+  runReverseSync,
+  markAppliedChangesSynced,
+} from '../src/reverse';
+import {
+  BeadsIssue,
+  BeadsStatus,
+  BeadsMutation,
+  ConflictPolicy,
+  SyncConfig,
+} from '../src/types';
+import { GitHubClient, GitHubComment, GitHubIssue } from '../src/github';
+import { createEmptyMapping, setMapping, createIssueMapping } from '../src/mapper';
+import { computeContentHash } from '../src/state';
+import { formatBeadsComment } from '../src/template';
+import { parseLabelConfig } from '../src/labelconfig';
+
+describe('reverse', () => {
+  const makeIssue = (
+    id: string,
+    status: BeadsStatus = 'open',
+    overrides: Partial<BeadsIssue> = {}
+  ): BeadsIssue => ({
+    id,
+    title: `Issue ${id}`,
+    status,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const makeGitHubIssue = (
+    number: number,
+    overrides: Partial<GitHubIssue> = {}
+  ): GitHubIssue => ({
+    number,
+    id: number * 100,
+    state: 'open',
+    title: `Issue ${number}`,
+    body: null,
+    labels: ['beads-synced'],
+    assignees: [],
+    updated_at: '2025-01-03T00:00:00Z',
+    ...overrides,
+  });
+
+  const makeComment = (id: number, body: string): GitHubComment => ({
+    id,
+    issueNumber: 42,
+    author: 'octocat',
+    body,
+    created_at: '2025-01-02T00:00:00Z',
+  });
+
+  /** Mapping where the beads issue is unchanged since the last sync */
+  const syncedMapping = (issue: BeadsIssue) => {
+    const mapping = createEmptyMapping();
+    setMapping(
+      mapping,
+      issue.id,
+      createIssueMapping(42, 4200, issue.updated_at, false, computeContentHash(issue))
+    );
+    return mapping;
+  };
+
+  const config = (conflictPolicy: ConflictPolicy = 'beads-wins') => ({
+    labelPrefix: '',
+    conflictPolicy,
+  });
+
+  describe('computeReverseDiff', () => {
+    it('should return nothing when GitHub matches beads', () => {
+      const issue = makeIssue('bd-1');
+
+      const result = computeReverseDiff(
+        [issue],
+        syncedMapping(issue),
+        [makeGitHubIssue(42)],
+        [],
+        config()
+      );
+
+      expect(result.mutations).toEqual([]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should import an issue closed on GitHub', () => {
+      const issue = makeIssue('bd-1');
+
+      const result = computeReverseDiff(
+        [issue],
+        syncedMapping(issue),
+        [makeGitHubIssue(42, { state: 'closed' })],
+        [],
+        config()
+      );
+
+      expect(result.mutations).toEqual([
+        { type: 'set-status', issue_id: 'bd-1', github_issue_number: 42, status: 'closed' },
+      ]);
+    });
+
+    it('should import an issue reopened on GitHub', () => {
+      const issue = makeIssue('bd-1', 'closed');
+
+      const result = computeReverseDiff(
+        [issue],
+        syncedMapping(issue),
+        [makeGitHubIssue(42, { state: 'open' })],
+        [],
+        config()
+      );
+
+      expect(result.mutations[0].status).toBe('open');
+    });
+
+    it('should import label changes ignoring generated labels', () => {
+      const issue = makeIssue('bd-1', 'open', { labels: ['frontend'], priority: 1 });
+
+      const result = computeReverseDiff(
+        [issue],
+        syncedMapping(issue),
+        [makeGitHubIssue(42, { labels: ['beads-synced', 'priority:p1', 'frontend', 'triage'] })],
+        [],
+        config()
+      );
+
+      expect(result.mutations).toEqual([
+        {
+          type: 'set-labels',
+          issue_id: 'bd-1',
+          github_issue_number: 42,
+          labels: ['frontend', 'triage'],
+        },
+      ]);
+    });
+
+    it('should import labels renamed by the label config under their beads name', () => {
+      const issue = makeIssue('bd-1', 'open', { labels: ['frontend'] });
+
+      const result = computeReverseDiff(
+        [issue],
+        syncedMapping(issue),
+        [makeGitHubIssue(42, { labels: ['beads-synced', 'area: frontend', 'triage'] })],
+        [],
+        { ...config(), labelScheme: parseLabelConfig('labels:\n  frontend: "area: frontend"') }
+      );
+
+      expect(result.mutations[0].labels).toEqual(['frontend', 'triage']);
+    });
+
+    it('should import an assignee set on GitHub but not an empty one', () => {
+      const assigned = makeIssue('bd-1');
+      const unassigned = makeIssue('bd-1', 'open', { assignee: 'not-a-github-user' });
+
+      const assignedResult = computeReverseDiff(
+        [assigned],
+        syncedMapping(assigned),
+        [makeGitHubIssue(42, { assignees: ['octocat'] })],
+        [],
+        config()
+      );
+      const unassignedResult = computeReverseDiff(
+        [unassigned],
+        syncedMapping(unassigned),
+        [makeGitHubIssue(42)],
+        [],
+        config()
+      );
+
+      expect(assignedResult.mutations[0]).toMatchObject({
+        type: 'set-assignee',
+        assignee: 'octocat',
+      });
+      expect(unassignedResult.mutations).toEqual([]);
+    });
+
+    it('should import comments not posted by the syncer', () => {
+      const issue = makeIssue('bd-1', 'open', {
+        comments: [{ id: 'gh-3', author: 'octocat', created_at: '2025-01-02T00:00:00Z', body: 'Done' }],
+      });
+      const mapping = syncedMapping(issue);
+      mapping.mappings['bd-1'].comments['c1'] = { github_comment_id: 1 };
+
+      const result = computeReverseDiff(
+        [issue],
+        mapping,
+        [makeGitHubIssue(42)],
+        [
+          makeComment(1, 'Mapped beads comment'),
+          makeComment(2, formatBeadsComment(
+            { author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Synced' },
+            'bd-1'
+          )),
+          makeComment(3, 'Already imported'),
+          makeComment(4, 'Human comment'),
+        ],
+        config()
+      );
+
+      expect(result.mutations).toEqual([
+        {
+          type: 'add-comment',
+          issue_id: 'bd-1',
+          github_issue_number: 42,
+          comment: {
+            id: 'gh-4',
+            author: 'octocat',
+            created_at: '2025-01-02T00:00:00Z',
+            body: 'Human comment',
+          },
+        },
+      ]);
+    });
+
+    it('should report conflicts and apply the conflict policy', () => {
+      const synced = makeIssue('bd-1');
+      const mapping = syncedMapping(synced);
+      const edited = makeIssue('bd-1', 'open', {
+        description: 'Edited in beads',
+        updated_at: '2025-01-02T00:00:00Z',
+      });
+      const githubIssues = [makeGitHubIssue(42, { state: 'closed' })];
+
+      const beadsWins = computeReverseDiff([edited], mapping, githubIssues, [], config('beads-wins'));
+      const githubWins = computeReverseDiff([edited], mapping, githubIssues, [], config('github-wins'));
+      const newestWins = computeReverseDiff([edited], mapping, githubIssues, [], config('newest-wins'));
+
+      expect(beadsWins.conflicts).toEqual([{ issue_id: 'bd-1', field: 'status', winner: 'beads' }]);
+      expect(beadsWins.mutations).toEqual([]);
+      expect(githubWins.mutations).toHaveLength(1);
+      // GitHub was updated on 2025-01-03, after the beads edit
+      expect(newestWins.conflicts[0].winner).toBe('github');
+      expect(newestWins.mutations).toHaveLength(1);
+    });
+
+    it('should keep emitting pending changes once synced in patch mode', () => {
+      const issue = makeIssue('bd-1');
+      const githubIssues = [makeGitHubIssue(42, { state: 'closed' })];
+      const first = computeReverseDiff([issue], syncedMapping(issue), githubIssues, [], config());
+
+      // The forward sync then records the state of the patched issue
+      const patched = applyMutations([issue], first.mutations)[0];
+      const second = computeReverseDiff([issue], syncedMapping(patched), githubIssues, [], config());
+
+      expect(second.conflicts).toEqual([]);
+      expect(second.mutations).toEqual(first.mutations);
+    });
+
+    it('should ignore unmapped issues', () => {
+      const result = computeReverseDiff(
+        [makeIssue('bd-1')],
+        createEmptyMapping(),
+        [makeGitHubIssue(42, { state: 'closed' })],
+        [],
+        config()
+      );
+
+      expect(result.mutations).toEqual([]);
+    });
+  });
+
+  describe('applyMutations', () => {
+    const mutations: BeadsMutation[] = [
+      { type: 'set-status', issue_id: 'bd-1', github_issue_number: 42, status: 'closed' },
+      {
+        type: 'add-comment',
+        issue_id: 'bd-1',
+        github_issue_number: 42,
+        comment: { id: 'gh-4', author: 'octocat', created_at: '2025-01-02T00:00:00Z', body: 'Hi' },
+      },
+    ];
+
+    it('should apply mutations to matching issues only', () => {
+      const issues = [makeIssue('bd-1'), makeIssue('bd-2')];
+
+      const result = applyMutations(issues, mutations, '2025-02-01T00:00:00Z');
+
+      expect(result[0].status).toBe('closed');
+      expect(result[0].comments).toHaveLength(1);
+      expect(result[0].updated_at).toBe('2025-02-01T00:00:00Z');
+      expect(result[1]).toEqual(issues[1]);
+    });
+
+    it('should rewrite only mutated JSONL lines and keep unknown fields', () => {
+      const content = [
+        JSON.stringify({ ...makeIssue('bd-1'), custom_field: 'kept' }),
+        '{"id": "bd-2",   "title": "Untouched", "status": "open", "created_at": "x", "updated_at": "y"}',
+        '',
+      ].join('\n');
+
+      const result = applyMutationsToJsonl(content, mutations).split('\n');
+
+      expect(JSON.parse(result[0])).toMatchObject({ status: 'closed', custom_field: 'kept' });
+      expect(result[1]).toBe('{"id": "bd-2",   "title": "Untouched", "status": "open", "created_at": "x", "updated_at": "y"}');
+      expect(result[2]).toBe('');
+    });
+  });
+
+  describe('runReverseSync', () => {
+    let tmpDir: string;
+
+    const makeConfig = (overrides: Partial<SyncConfig> = {}): SyncConfig => ({
+      githubToken: 'test-token',
+      beadsFile: path.join(tmpDir, 'issues.jsonl'),
+      dryRun: false,
+      syncComments: true,
+      syncStatuses: ['open', 'in_progress', 'blocked', 'closed'],
+      syncPriorities: [0, 1, 2, 3, 4],
+      syncLabels: [],
+      labelPrefix: '',
+      addSyncMarker: true,
+      cleanupLabels: false,
+      closeDeleted: false,
+      adoptByTitle: false,
+      adoptThreshold: 0.9,
+      apiBudget: 0,
+      concurrency: 1,
+      mappingBase: 'title',
+      migrateMapping: false,
+      mappingStore: 'file',
+      mappingFile: path.join(tmpDir, 'mapping.json'),
+      mappingBranch: 'beads-sync-state',
+      reverseSync: 'apply',
+      reverseSyncFile: path.join(tmpDir, 'changes.jsonl'),
+      conflictPolicy: 'beads-wins',
+      planFile: path.join(tmpDir, 'plan.json'),
+      prPreview: false,
+      subIssues: false,
+      crossLinks: 'off',
+      dependencyGraph: false,
+      projectUrl: '',
+      projectFields: { priority: 'Priority', status: 'Status', type: 'Type', estimate: 'Estimate' },
+      issueTypes: false,
+      issueTypeMapping: {
+        bug: 'Bug',
+        feature: 'Feature',
+        task: 'Task',
+        epic: 'Epic',
+        chore: 'Chore',
+      },
+      owner: 'test-owner',
+      repo: 'test-repo',
+      ...overrides,
+    });
+
+    const makeClient = (githubIssues: GitHubIssue[] = []) => ({
+      listIssuesByLabel: vi.fn().mockResolvedValue(githubIssues),
+      listRepoComments: vi.fn().mockResolvedValue([]),
+    });
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-reverse-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should reuse the issues listed while loading the mapping', async () => {
+      const issue = makeIssue('bd-1');
+      const config = makeConfig();
+      fs.writeFileSync(config.beadsFile, `${JSON.stringify(issue)}\n`);
+      const client = makeClient();
+
+      const result = await runReverseSync(
+        [issue],
+        syncedMapping(issue),
+        client as unknown as GitHubClient,
+        config,
+        { issues: [makeGitHubIssue(42, { state: 'closed' })], since: '2025-01-02T00:00:00Z' }
+      );
+
+      expect(client.listIssuesByLabel).not.toHaveBeenCalled();
+      expect(client.listRepoComments).toHaveBeenCalledWith('2025-01-02T00:00:00Z');
+      expect(result.issues[0].status).toBe('closed');
+    });
+
+    it('should treat applied changes as synced on the next run', async () => {
+      const issue = makeIssue('bd-1');
+      const config = makeConfig();
+      fs.writeFileSync(config.beadsFile, `${JSON.stringify(issue)}\n`);
+      const mapping = syncedMapping(issue);
+
+      // Closed on GitHub, then not synced by the forward sync (e.g. filtered out)
+      const first = await runReverseSync(
+        [issue],
+        mapping,
+        makeClient([makeGitHubIssue(42, { state: 'closed' })]) as unknown as GitHubClient,
+        config
+      );
+      markAppliedChangesSynced(first, mapping);
+
+      // Reopened on GitHub before the next run
+      const second = await runReverseSync(
+        first.issues,
+        mapping,
+        makeClient([makeGitHubIssue(42)]) as unknown as GitHubClient,
+        config
+      );
+
+      expect(first.appliedIds).toEqual(['bd-1']);
+      expect(second.conflicts).toEqual([]);
+      expect(second.issues[0].status).toBe('open');
+      expect(JSON.parse(fs.readFileSync(config.beadsFile, 'utf-8')).status).toBe('open');
+    });
+
+    it('should not mark issues with beads changes of their own as synced', async () => {
+      const issue = makeIssue('bd-1');
+      const config = makeConfig();
+      const changed = { ...issue, title: 'Edited', updated_at: '2025-01-02T00:00:00Z' };
+      fs.writeFileSync(config.beadsFile, `${JSON.stringify(changed)}\n`);
+      const mapping = syncedMapping(issue);
+
+      const result = await runReverseSync(
+        [changed],
+        mapping,
+        makeClient([makeGitHubIssue(42, { state: 'closed' })]) as unknown as GitHubClient,
+        makeConfig({ conflictPolicy: 'github-wins' })
+      );
+      markAppliedChangesSynced(result, mapping);
+
+      expect(result.appliedIds).toEqual([]);
+      expect(mapping.mappings['bd-1'].beads_updated_at).toBe(issue.updated_at);
+    });
+
+    it('should list all synced issues in patch mode after an incremental load', async () => {
+      const issue = makeIssue('bd-1');
+      const config = makeConfig({ reverseSync: 'patch' });
+      const client = makeClient([makeGitHubIssue(42, { state: 'closed' })]);
+
+      const result = await runReverseSync(
+        [issue],
+        syncedMapping(issue),
+        client as unknown as GitHubClient,
+        config,
+        { issues: [], since: '2025-01-02T00:00:00Z' }
+      );
+
+      expect(client.listIssuesByLabel).toHaveBeenCalledWith('beads-synced');
+      expect(client.listRepoComments).toHaveBeenCalledWith(undefined);
+      expect(result.mutations).toHaveLength(1);
+      expect(fs.readFileSync(config.reverseSyncFile, 'utf-8')).toBe(
+        serializeMutations(result.mutations)
+      );
+    });
+  });
+
+  describe('serializeMutations', () => {
+    it('should write one JSON mutation per line', () => {
+      const serialized = serializeMutations([
+        { type: 'set-status', issue_id: 'bd-1', github_issue_number: 42, status: 'closed' },
+      ]);
+
+      expect(serialized).toBe(
+        '{"type":"set-status","issue_id":"bd-1","github_issue_number":42,"status":"closed"}\n'
+      );
+    });
+  });
+});
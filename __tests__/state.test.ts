@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeContentHash,
+  renderSyncState,
+  extractSyncStateFromBody,
+} from '../src/state';
+import { BeadsIssue, IssueSyncState } from '../src/types';
+
+describe('state', () => {
+  const baseIssue: BeadsIssue = {
+    id: 'bd-abc123',
+    title: 'Test issue',
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  };
+
+  describe('computeContentHash', () => {
+    it('should be stable for identical content', () => {
+      expect(computeContentHash(baseIssue)).toBe(
+        computeContentHash({ ...baseIssue })
+      );
+    });
+
+    it('should change when content changes', () => {
+      const edited = { ...baseIssue, description: 'Edited' };
+
+      expect(computeContentHash(edited)).not.toBe(computeContentHash(baseIssue));
+    });
+
+    it('should ignore comments', () => {
+      const commented: BeadsIssue = {
+        ...baseIssue,
+        comments: [
+          { id: '1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' },
+        ],
+      };
+
+      expect(computeContentHash(commented)).toBe(computeContentHash(baseIssue));
+    });
+  });
+
+  describe('renderSyncState / extractSyncStateFromBody', () => {
+    const state: IssueSyncState = {
+      beads_updated_at: '2025-01-02T00:00:00Z',
+      content_hash: 'abc',
+      comments: { '1': { github_comment_id: 999 } },
+    };
+
+    it('should render a hidden HTML comment', () => {
+      const block = renderSyncState(state);
+
+      expect(block.startsWith('<!-- beads-sync-state:')).toBe(true);
+      expect(block.endsWith(' -->')).toBe(true);
+    });
+
+    it('should round-trip through an issue body', () => {
+      const body = `Some content\n\n${renderSyncState(state)}\n`;
+
+      expect(extractSyncStateFromBody(body)).toEqual(state);
+    });
+
+    it('should not let values terminate the HTML comment', () => {
+      const tricky: IssueSyncState = {
+        ...state,
+        comments: { 'c-->1': { github_comment_id: 1 } },
+      };
+      const block = renderSyncState(tricky);
+
+      expect(block.indexOf('-->')).toBe(block.length - 3);
+      expect(extractSyncStateFromBody(block)).toEqual(tricky);
+    });
+
+    it('should ignore state blocks quoted in the description', () => {
+      const spoofed = renderSyncState({ ...state, content_hash: 'spoofed', parent_issue_number: 1 });
+      const body = `Description\n\n${spoofed}\n\n${renderSyncState(state)}`;
+
+      expect(extractSyncStateFromBody(body)).toEqual(state);
+    });
+
+    it('should return null when no state block is present', () => {
+      expect(extractSyncStateFromBody('Regular body')).toBeNull();
+      expect(extractSyncStateFromBody(null)).toBeNull();
+    });
+
+    it('should return null for a corrupted state block', () => {
+      expect(
+        extractSyncStateFromBody('<!-- beads-sync-state:{not json} -->')
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createMappingStore } from '../src/store';
+import { SyncConfig } from '../src/types';
+import { GitHubClient } from '../src/github';
+import {
+  createEmptyMapping,
+  createIssueMapping,
+  getMapping,
+  serializeMapping,
+  setMapping,
+} from '../src/mapper';
+
+describe('store', () => {
+  let tmpDir: string;
+  let mockClient: {
+    listIssuesByLabel: ReturnType<typeof vi.fn>;
+    getFileContent: ReturnType<typeof vi.fn>;
+    ensureBranch: ReturnType<typeof vi.fn>;
+    writeFileContent: ReturnType<typeof vi.fn>;
+  };
+
+  const makeConfig = (overrides: Partial<SyncConfig> = {}): SyncConfig => ({
+    githubToken: 'test-token',
+    beadsFile: '.beads/issues.jsonl',
+    dryRun: false,
+    syncComments: false,
+    syncStatuses: ['open', 'in_progress', 'blocked', 'closed'],
+    syncPriorities: [0, 1, 2, 3, 4],
+    syncLabels: [],
+    labelPrefix: '',
+    addSyncMarker: true,
+    cleanupLabels: false,
+    closeDeleted: false,
+    adoptByTitle: false,
+    adoptThreshold: 0.9,
+    apiBudget: 0,
+    concurrency: 1,
+    mappingBase: 'title',
+    migrateMapping: false,
+    mappingStore: 'file',
+    mappingFile: path.join(tmpDir, 'mapping.json'),
+    mappingBranch: 'beads-sync-state',
+    reverseSync: 'off',
+    reverseSyncFile: path.join(tmpDir, 'changes.jsonl'),
+    conflictPolicy: 'beads-wins',
+    planFile: path.join(tmpDir, 'plan.json'),
+    prPreview: false,
+    subIssues: false,
+    crossLinks: 'off',
+    dependencyGraph: false,
+    projectUrl: '',
+    projectFields: { priority: 'Priority', status: 'Status', type: 'Type', estimate: 'Estimate' },
+    issueTypes: false,
+    issueTypeMapping: {
+      bug: 'Bug',
+      feature: 'Feature',
+      task: 'Task',
+      epic: 'Epic',
+      chore: 'Chore',
+    },
+    owner: 'test-owner',
+    repo: 'test-repo',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-store-'));
+    mockClient = {
+      listIssuesByLabel: vi.fn().mockResolvedValue([
+        { number: 5, id: 500, state: 'open', title: '[bd-scanned] Scanned', body: null, labels: [] },
+      ]),
+      getFileContent: vi.fn().mockResolvedValue(null),
+      ensureBranch: vi.fn().mockResolvedValue(undefined),
+      writeFileContent: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('github-scan', () => {
+    it('should scan all synced issues', async () => {
+      const store = createMappingStore(
+        mockClient as unknown as GitHubClient,
+        makeConfig({ mappingStore: 'github-scan' })
+      );
+
+      const mapping = await store.load();
+
+      expect(mockClient.listIssuesByLabel).toHaveBeenCalledWith('beads-synced', undefined);
+      expect(getMapping(mapping, 'bd-scanned')?.github_issue_number).toBe(5);
+    });
+  });
+
+  describe('file', () => {
+    it('should do a full scan when the mapping file does not exist', async () => {
+      const store = createMappingStore(mockClient as unknown as GitHubClient, makeConfig());
+
+      const mapping = await store.load();
+
+      expect(mockClient.listIssuesByLabel).toHaveBeenCalledWith('beads-synced', undefined);
+      expect(getMapping(mapping, 'bd-scanned')).toBeDefined();
+    });
+
+    it('should only scan issues updated since the last sync', async () => {
+      const config = makeConfig();
+      const stored = createEmptyMapping();
+      stored.sync_metadata.last_full_sync = '2025-01-01T00:00:00Z';
+      setMapping(stored, 'bd-stored', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+      fs.writeFileSync(config.mappingFile, serializeMapping(stored));
+      const store = createMappingStore(mockClient as unknown as GitHubClient, config);
+
+      const mapping = await store.load();
+
+      expect(mockClient.listIssuesByLabel).toHaveBeenCalledWith(
+        'beads-synced',
+        '2025-01-01T00:00:00Z'
+      );
+      expect(getMapping(mapping, 'bd-stored')?.github_issue_number).toBe(1);
+      expect(getMapping(mapping, 'bd-scanned')?.github_issue_number).toBe(5);
+    });
+
+    it('should write the mapping back to disk', async () => {
+      const config = makeConfig({ mappingFile: path.join(tmpDir, 'nested', 'mapping.json') });
+      const store = createMappingStore(mockClient as unknown as GitHubClient, config);
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-saved', createIssueMapping(3, 300, '2025-01-01T00:00:00Z'));
+
+      await store.save(mapping);
+
+      const saved = JSON.parse(fs.readFileSync(config.mappingFile, 'utf-8'));
+      expect(saved.mappings['bd-saved'].github_issue_number).toBe(3);
+    });
+  });
+
+  describe('git-branch', () => {
+    it('should load from and save to the mapping branch', async () => {
+      const stored = createEmptyMapping();
+      setMapping(stored, 'bd-stored', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+      mockClient.getFileContent.mockResolvedValue({
+        content: serializeMapping(stored),
+        sha: 'blob-sha',
+      });
+      const config = makeConfig({ mappingStore: 'git-branch', mappingFile: 'mapping.json' });
+      const store = createMappingStore(mockClient as unknown as GitHubClient, config);
+
+      const mapping = await store.load();
+      await store.save(mapping);
+
+      expect(mockClient.getFileContent).toHaveBeenCalledWith('mapping.json', 'beads-sync-state');
+      expect(getMapping(mapping, 'bd-stored')).toBeDefined();
+      expect(mockClient.ensureBranch).toHaveBeenCalledWith('beads-sync-state');
+      expect(mockClient.writeFileContent).toHaveBeenCalledWith(
+        'mapping.json',
+        'beads-sync-state',
+        expect.stringContaining('bd-stored'),
+        expect.any(String),
+        'blob-sha'
+      );
+    });
+
+    it('should update a mapping file the new branch got from the default branch', async () => {
+      const config = makeConfig({ mappingStore: 'git-branch', mappingFile: 'mapping.json' });
+      const store = createMappingStore(mockClient as unknown as GitHubClient, config);
+
+      const mapping = await store.load();
+      mockClient.getFileContent.mockResolvedValue({ content: '{}', sha: 'default-sha' });
+      await store.save(mapping);
+
+      expect(mockClient.writeFileContent).toHaveBeenCalledWith(
+        'mapping.json',
+        'beads-sync-state',
+        expect.any(String),
+        expect.any(String),
+        'default-sha'
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { syncSubIssues, getParentId } from '../src/subissues';
+import { BeadsIssue, MappingFile } from '../src/types';
+import { GitHubClient } from '../src/github';
+import { createEmptyMapping, setMapping, createIssueMapping, getMapping } from '../src/mapper';
+
+describe('subissues', () => {
+  let mockClient: {
+    addSubIssue: ReturnType<typeof vi.fn>;
+    removeSubIssue: ReturnType<typeof vi.fn>;
+  };
+  let mapping: MappingFile;
+
+  const makeIssue = (id: string, parentId?: string): BeadsIssue => ({
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    dependencies: parentId ? [{ id: parentId, type: 'parent-child' }] : undefined,
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      addSubIssue: vi.fn().mockResolvedValue(undefined),
+      removeSubIssue: vi.fn().mockResolvedValue(undefined),
+    };
+    mapping = createEmptyMapping();
+    setMapping(mapping, 'bd-epic1', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+    setMapping(mapping, 'bd-epic2', createIssueMapping(2, 200, '2025-01-01T00:00:00Z'));
+    setMapping(mapping, 'bd-child', createIssueMapping(3, 300, '2025-01-01T00:00:00Z'));
+  });
+
+  describe('getParentId', () => {
+    it('should return the parent-child dependency only', () => {
+      const issue = makeIssue('bd-child');
+      issue.dependencies = [
+        { id: 'bd-blocker', type: 'blocks' },
+        { id: 'bd-epic1', type: 'parent-child' },
+      ];
+
+      expect(getParentId(issue)).toBe('bd-epic1');
+      expect(getParentId(makeIssue('bd-orphan'))).toBeUndefined();
+    });
+  });
+
+  describe('syncSubIssues', () => {
+    it('should link a child to its epic', async () => {
+      const result = await syncSubIssues(
+        [makeIssue('bd-child', 'bd-epic1')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        false
+      );
+
+      expect(mockClient.addSubIssue).toHaveBeenCalledWith(1, 300);
+      expect(result).toEqual({ linked: 1, unlinked: 0, changedIds: ['bd-child'] });
+      expect(getMapping(mapping, 'bd-child')?.parent_issue_number).toBe(1);
+    });
+
+    it('should not call the API when the link is unchanged', async () => {
+      getMapping(mapping, 'bd-child')!.parent_issue_number = 1;
+
+      const result = await syncSubIssues(
+        [makeIssue('bd-child', 'bd-epic1')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        false
+      );
+
+      expect(mockClient.addSubIssue).not.toHaveBeenCalled();
+      expect(result.changedIds).toEqual([]);
+    });
+
+    it('should move a child to its new epic', async () => {
+      getMapping(mapping, 'bd-child')!.parent_issue_number = 1;
+
+      await syncSubIssues(
+        [makeIssue('bd-child', 'bd-epic2')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        false
+      );
+
+      expect(mockClient.addSubIssue).toHaveBeenCalledWith(2, 300);
+      expect(mockClient.removeSubIssue).not.toHaveBeenCalled();
+      expect(getMapping(mapping, 'bd-child')?.parent_issue_number).toBe(2);
+    });
+
+    it('should unlink a child removed from its epic', async () => {
+      getMapping(mapping, 'bd-child')!.parent_issue_number = 1;
+
+      const result = await syncSubIssues(
+        [makeIssue('bd-child')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        false
+      );
+
+      expect(mockClient.removeSubIssue).toHaveBeenCalledWith(1, 300);
+      expect(result.unlinked).toBe(1);
+      expect(getMapping(mapping, 'bd-child')?.parent_issue_number).toBeUndefined();
+    });
+
+    it('should not change links in dry-run mode', async () => {
+      const result = await syncSubIssues(
+        [makeIssue('bd-child', 'bd-epic1')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        true
+      );
+
+      expect(mockClient.addSubIssue).not.toHaveBeenCalled();
+      expect(result.linked).toBe(0);
+      expect(getMapping(mapping, 'bd-child')?.parent_issue_number).toBeUndefined();
+    });
+
+    it('should keep the recorded link when the API call fails', async () => {
+      mockClient.addSubIssue.mockRejectedValue(new Error('boom'));
+
+      const result = await syncSubIssues(
+        [makeIssue('bd-child', 'bd-epic1')],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        false
+      );
+
+      expect(result.changedIds).toEqual([]);
+      expect(getMapping(mapping, 'bd-child')?.parent_issue_number).toBeUndefined();
+    });
+  });
+});
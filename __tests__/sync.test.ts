@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { runSync, filterIssues } from '../src/sync';
+import { runSync, filterIssues, groupActionsInWaves } from '../src/sync';
 import { BeadsIssue, BeadsStatus, MappingFile, SyncConfig } from '../src/types';
 import { GitHubClient } from '../src/github';
 import { createEmptyMapping, setMapping, createIssueMapping } from '../src/mapper';
+import { extractSyncStateFromBody, computeCommentHash, computeContentHash } from '../src/state';
+import { needsUpdate } from '../src/diff';
 
 // Mock the GitHub client
 vi.mock('../src/github', () => ({
@@ -14,6 +16,7 @@ vi.mock('../src/github', () => ({
     getIssue: vi.fn(),
     createComment: vi.fn(),
     ensureLabels: vi.fn(),
+    isBudgetExhausted: vi.fn().mockReturnValue(false),
     filterValidAssignees: vi.fn().mockResolvedValue([]),
   })),
 }));
@@ -42,7 +45,36 @@ describe('sync', () => {
     syncLabels: [],
     labelPrefix: '',
     addSyncMarker: true,
+    cleanupLabels: false,
     closeDeleted: false,
+    adoptByTitle: false,
+    adoptThreshold: 0.9,
+    apiBudget: 0,
+    concurrency: 1,
+    // Plain titles, the beads ID is only in the body
+    mappingBase: 'body',
+    migrateMapping: false,
+    mappingStore: 'github-scan',
+    mappingFile: '.beads/github-mapping.json',
+    mappingBranch: 'beads-sync-state',
+    reverseSync: 'off',
+    reverseSyncFile: '.beads/github-changes.jsonl',
+    conflictPolicy: 'beads-wins',
+    planFile: 'beads-sync-plan.json',
+    prPreview: false,
+    subIssues: false,
+    crossLinks: 'off',
+    dependencyGraph: false,
+    projectUrl: '',
+    projectFields: { priority: 'Priority', status: 'Status', type: 'Type', estimate: 'Estimate' },
+    issueTypes: false,
+    issueTypeMapping: {
+      bug: 'Bug',
+      feature: 'Feature',
+      task: 'Task',
+      epic: 'Epic',
+      chore: 'Chore',
+    },
     owner: 'test-owner',
     repo: 'test-repo',
     ...overrides,
@@ -77,6 +109,47 @@ describe('sync', () => {
     });
   });
 
+  describe('groupActionsInWaves', () => {
+    it('should create linked issues before the issues linking to them', () => {
+      const epic = makeIssue('bd-epic');
+      const child = makeIssue('bd-child', 'open', {
+        dependencies: [{ id: 'bd-epic', type: 'parent-child' }],
+      });
+      const blocked = makeIssue('bd-blocked', 'open', {
+        dependencies: [{ id: 'bd-child', type: 'blocks' }],
+      });
+      const existing = makeIssue('bd-existing', 'open', {
+        dependencies: [{ id: 'bd-mapped', type: 'blocks' }],
+      });
+
+      const waves = groupActionsInWaves([
+        { type: 'create', beadsIssue: blocked, reason: '' },
+        { type: 'create', beadsIssue: child, reason: '' },
+        { type: 'create', beadsIssue: epic, reason: '' },
+        { type: 'update', beadsIssue: existing, githubIssueNumber: 7, reason: '' },
+      ]);
+
+      expect(waves.map((wave) => wave.map((action) => action.beadsIssue.id))).toEqual([
+        ['bd-epic', 'bd-existing'],
+        ['bd-child'],
+        ['bd-blocked'],
+      ]);
+    });
+
+    it('should keep dependency cycles in a single wave', () => {
+      const a = makeIssue('bd-a', 'open', { dependencies: [{ id: 'bd-b', type: 'relates-to' }] });
+      const b = makeIssue('bd-b', 'open', { dependencies: [{ id: 'bd-a', type: 'relates-to' }] });
+
+      const waves = groupActionsInWaves([
+        { type: 'create', beadsIssue: a, reason: '' },
+        { type: 'create', beadsIssue: b, reason: '' },
+      ]);
+
+      expect(waves).toHaveLength(1);
+      expect(waves[0]).toHaveLength(2);
+    });
+  });
+
   describe('runSync - status handling', () => {
     let mockClient: {
       createIssue: ReturnType<typeof vi.fn>;
@@ -86,6 +159,7 @@ describe('sync', () => {
       getIssue: ReturnType<typeof vi.fn>;
       createComment: ReturnType<typeof vi.fn>;
       ensureLabels: ReturnType<typeof vi.fn>;
+      isBudgetExhausted: ReturnType<typeof vi.fn>;
       filterValidAssignees: ReturnType<typeof vi.fn>;
     };
 
@@ -95,9 +169,10 @@ describe('sync', () => {
         updateIssue: vi.fn().mockResolvedValue({ number: 1, id: 100 }),
         closeIssue: vi.fn().mockResolvedValue({ number: 1, id: 100 }),
         reopenIssue: vi.fn().mockResolvedValue({ number: 1, id: 100 }),
-        getIssue: vi.fn().mockResolvedValue({ number: 1, id: 100, state: 'open' }),
+        getIssue: vi.fn().mockResolvedValue({ number: 1, id: 100, state: 'open', labels: [] }),
         createComment: vi.fn().mockResolvedValue({ id: 1 }),
         ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
         filterValidAssignees: vi.fn().mockResolvedValue([]),
       };
     });
@@ -156,7 +231,7 @@ describe('sync', () => {
       const mapping = createEmptyMapping();
       const config = makeConfig();
 
-      mockClient.getIssue.mockResolvedValue({ number: 99, id: 199, state: 'open' });
+      mockClient.getIssue.mockResolvedValue({ number: 99, id: 199, state: 'open', labels: [] });
 
       await runSync(issues, mapping, mockClient as unknown as GitHubClient, config);
 
@@ -174,7 +249,7 @@ describe('sync', () => {
       const mapping = createEmptyMapping();
       const config = makeConfig();
 
-      mockClient.getIssue.mockResolvedValue({ number: 99, id: 199, state: 'open' });
+      mockClient.getIssue.mockResolvedValue({ number: 99, id: 199, state: 'open', labels: [] });
 
       await runSync(issues, mapping, mockClient as unknown as GitHubClient, config);
 
@@ -204,6 +279,22 @@ describe('sync', () => {
       expect(mockClient.closeIssue).toHaveBeenCalledWith(42, expect.any(String));
     });
 
+    it('should stop once the API call budget is exhausted', async () => {
+      const issues = [makeIssue('bd-1'), makeIssue('bd-2'), makeIssue('bd-3')];
+      const mapping = createEmptyMapping();
+      mockClient.isBudgetExhausted
+        .mockReturnValueOnce(false)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+
+      const result = await runSync(issues, mapping, mockClient as unknown as GitHubClient, makeConfig());
+
+      expect(mockClient.createIssue).toHaveBeenCalledTimes(2);
+      expect(result.created).toBe(2);
+      expect(result.budgetExhausted).toBe(true);
+      expect(Object.keys(mapping.mappings)).toEqual(['bd-1', 'bd-2']);
+    });
+
     it('should handle mixed statuses correctly in batch', async () => {
       const issues = [
         makeIssue('bd-open', 'open'),
@@ -228,4 +319,465 @@ describe('sync', () => {
       expect(mockClient.closeIssue).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('runSync - GitHub state', () => {
+    let mockClient: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+      mockClient = {
+        createIssue: vi.fn(),
+        updateIssue: vi.fn().mockResolvedValue({ number: 42, id: 142 }),
+        closeIssue: vi.fn().mockResolvedValue({ number: 42, id: 142 }),
+        reopenIssue: vi.fn().mockResolvedValue({ number: 42, id: 142 }),
+        getIssue: vi.fn(),
+        createComment: vi.fn(),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+    });
+
+    it('should reopen an issue closed manually on GitHub', async () => {
+      const issues = [makeIssue('bd-open', 'open')];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 142, '2025-01-01T00:00:00Z');
+      issueMapping.github_state = 'closed';
+      setMapping(mapping, 'bd-open', issueMapping);
+
+      const result = await runSync(issues, mapping, mockClient as unknown as GitHubClient, makeConfig());
+
+      expect(mockClient.reopenIssue).toHaveBeenCalledWith(42);
+      expect(result.reopened).toBe(1);
+      expect(mapping.mappings['bd-open'].github_state).toBe('open');
+    });
+
+    it('should only replace the labels owned by the syncer', async () => {
+      const issues = [
+        makeIssue('bd-open', 'open', {
+          updated_at: '2025-01-02T00:00:00Z',
+          labels: ['frontend'],
+        }),
+      ];
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-open', {
+        ...createIssueMapping(42, 142, '2025-01-01T00:00:00Z'),
+        synced_labels: ['beads-synced', 'backend'],
+      });
+      mockClient.getIssue.mockResolvedValue({
+        number: 42,
+        id: 142,
+        state: 'open',
+        labels: ['beads-synced', 'backend', 'priority:p0', 'needs-triage'],
+      });
+
+      await runSync(issues, mapping, mockClient as unknown as GitHubClient, makeConfig());
+
+      const { labels } = mockClient.updateIssue.mock.calls[0][0];
+      expect(labels).toContain('needs-triage');
+      expect(labels).toContain('frontend');
+      expect(labels).not.toContain('backend');
+      expect(labels).not.toContain('priority:p0');
+      expect(mapping.mappings['bd-open'].synced_labels).toContain('frontend');
+    });
+
+    it('should not close deleted issues that are already closed', async () => {
+      const mapping = createEmptyMapping();
+      const openMapping = createIssueMapping(42, 142, '2025-01-01T00:00:00Z');
+      openMapping.github_state = 'open';
+      const closedMapping = createIssueMapping(43, 143, '2025-01-01T00:00:00Z');
+      closedMapping.github_state = 'closed';
+      setMapping(mapping, 'bd-deleted-open', openMapping);
+      setMapping(mapping, 'bd-deleted-closed', closedMapping);
+
+      const result = await runSync(
+        [],
+        mapping,
+        mockClient as unknown as GitHubClient,
+        makeConfig({ closeDeleted: true })
+      );
+
+      expect(mockClient.closeIssue).toHaveBeenCalledTimes(1);
+      expect(mockClient.closeIssue).toHaveBeenCalledWith(42, expect.any(String));
+      expect(result.closed).toBe(1);
+    });
+  });
+
+  describe('runSync - sync state', () => {
+    it('should persist new comment mappings in the issue body', async () => {
+      const mockClient = {
+        createIssue: vi.fn(),
+        updateIssue: vi.fn().mockResolvedValue({ number: 7, id: 700 }),
+        closeIssue: vi.fn(),
+        reopenIssue: vi.fn(),
+        getIssue: vi.fn(),
+        createComment: vi.fn().mockResolvedValue({ id: 4242 }),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+      const issues = [
+        makeIssue('bd-commented', 'open', {
+          comments: [
+            { id: 'c1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hello' },
+          ],
+        }),
+      ];
+      const mapping = createEmptyMapping();
+      setMapping(
+        mapping,
+        'bd-commented',
+        createIssueMapping(7, 700, '2025-01-01T00:00:00Z')
+      );
+
+      await runSync(
+        issues,
+        mapping,
+        mockClient as unknown as GitHubClient,
+        makeConfig({ syncComments: true })
+      );
+
+      expect(mockClient.updateIssue).toHaveBeenCalledTimes(1);
+      const { issueNumber, body } = mockClient.updateIssue.mock.calls[0][0];
+      expect(issueNumber).toBe(7);
+      expect(extractSyncStateFromBody(body)?.comments).toEqual({
+        c1: { github_comment_id: 4242, body_hash: computeCommentHash(issues[0].comments![0]) },
+      });
+    });
+
+    it('should propagate comment edits and deletions', async () => {
+      const mockClient = {
+        updateIssue: vi.fn().mockResolvedValue({ number: 7, id: 700 }),
+        createComment: vi.fn(),
+        updateComment: vi.fn().mockResolvedValue(undefined),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+      const edited = { id: 'c1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Edited' };
+      const issues = [makeIssue('bd-commented', 'open', { comments: [edited] })];
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(7, 700, '2025-01-01T00:00:00Z');
+      issueMapping.comments['c1'] = { github_comment_id: 11, body_hash: 'stale' };
+      issueMapping.comments['c2'] = { github_comment_id: 12, body_hash: 'removed' };
+      setMapping(mapping, 'bd-commented', issueMapping);
+
+      const result = await runSync(
+        issues,
+        mapping,
+        mockClient as unknown as GitHubClient,
+        makeConfig({ syncComments: true })
+      );
+
+      expect(mockClient.updateComment).toHaveBeenCalledWith(11, expect.stringContaining('Edited'));
+      expect(mockClient.deleteComment).toHaveBeenCalledWith(12);
+      expect(result.commentsUpdated).toBe(1);
+      expect(result.commentsDeleted).toBe(1);
+      const { body } = mockClient.updateIssue.mock.calls[0][0];
+      expect(extractSyncStateFromBody(body)?.comments).toEqual({
+        c1: { github_comment_id: 11, body_hash: computeCommentHash(edited) },
+      });
+    });
+
+    it('should keep the recorded state of issues whose update failed', async () => {
+      const mockClient = {
+        updateIssue: vi
+          .fn()
+          .mockRejectedValueOnce(Object.assign(new Error('Validation Failed'), { status: 422 }))
+          .mockResolvedValue({ number: 7, id: 700 }),
+        getIssue: vi.fn().mockResolvedValue(null),
+        createComment: vi.fn().mockResolvedValue({ id: 4242 }),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+      const issues = [
+        makeIssue('bd-commented', 'open', {
+          description: 'Edited',
+          updated_at: '2025-01-02T00:00:00Z',
+          comments: [
+            { id: 'c1', author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hello' },
+          ],
+        }),
+      ];
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-commented', {
+        ...createIssueMapping(7, 700, '2025-01-01T00:00:00Z'),
+        content_hash: 'previous',
+      });
+
+      const result = await runSync(
+        issues,
+        mapping,
+        mockClient as unknown as GitHubClient,
+        makeConfig({ syncComments: true })
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.commentsSynced).toBe(1);
+      expect(mockClient.updateIssue).toHaveBeenCalledTimes(2);
+      const state = extractSyncStateFromBody(mockClient.updateIssue.mock.calls[1][0].body);
+      expect(state?.beads_updated_at).toBe('2025-01-01T00:00:00Z');
+      expect(state?.content_hash).toBe('previous');
+      expect(state?.comments.c1.github_comment_id).toBe(4242);
+      expect(needsUpdate(issues[0], mapping.mappings['bd-commented'])).toBe(true);
+    });
+  });
+
+  describe('runSync - links to new issues', () => {
+    const makeClient = () => {
+      let issueNumber = 0;
+      return {
+        createIssue: vi.fn().mockImplementation(() => {
+          issueNumber++;
+          return Promise.resolve({ number: issueNumber, id: issueNumber * 100 });
+        }),
+        updateIssue: vi.fn().mockResolvedValue({}),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+    };
+
+    it('should re-render epics once their new children exist', async () => {
+      const client = makeClient();
+      const issues = [
+        makeIssue('bd-epic', 'open', { issue_type: 'epic' }),
+        makeIssue('bd-child', 'open', { dependencies: [{ id: 'bd-epic', type: 'parent-child' }] }),
+      ];
+      const mapping = createEmptyMapping();
+
+      await runSync(issues, mapping, client as unknown as GitHubClient, makeConfig());
+
+      const [epicParams] = client.createIssue.mock.calls[0];
+      const [childParams] = client.createIssue.mock.calls[1];
+      expect(epicParams.body).toContain('`bd-child`');
+      expect(childParams.body).toContain('#1');
+      expect(client.updateIssue).toHaveBeenCalledTimes(1);
+      const [update] = client.updateIssue.mock.calls[0];
+      expect(update.issueNumber).toBe(1);
+      expect(update.body).toContain('#2 Issue bd-child');
+      expect(extractSyncStateFromBody(update.body)?.content_hash).toBe(
+        mapping.mappings['bd-epic'].content_hash
+      );
+    });
+
+    it('should re-render unchanged issues linking to new issues', async () => {
+      const client = makeClient();
+      const linking = makeIssue('bd-linking', 'open', {
+        dependencies: [{ id: 'bd-new', type: 'blocks' }],
+      });
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-linking', {
+        ...createIssueMapping(7, 700, linking.updated_at),
+        content_hash: computeContentHash(linking),
+      });
+
+      await runSync(
+        [linking, makeIssue('bd-new')],
+        mapping,
+        client as unknown as GitHubClient,
+        makeConfig()
+      );
+
+      expect(client.createIssue).toHaveBeenCalledTimes(1);
+      const [update] = client.updateIssue.mock.calls[0];
+      expect(update.issueNumber).toBe(7);
+      expect(update.body).toContain('#1');
+    });
+
+    it('should render the issue again on the next run when the refresh fails', async () => {
+      const client = makeClient();
+      client.updateIssue.mockRejectedValue(new Error('boom'));
+      const issues = [
+        makeIssue('bd-epic', 'open', { issue_type: 'epic' }),
+        makeIssue('bd-child', 'open', { dependencies: [{ id: 'bd-epic', type: 'parent-child' }] }),
+      ];
+      const mapping = createEmptyMapping();
+
+      await runSync(issues, mapping, client as unknown as GitHubClient, makeConfig());
+
+      expect(client.updateIssue).toHaveBeenCalledTimes(1);
+      expect(needsUpdate(issues[0], mapping.mappings['bd-epic'])).toBe(true);
+      // The body created before the child existed records no hash either
+      const [epicCreate] = client.createIssue.mock.calls.find(
+        ([params]) => params.title === 'Issue bd-epic'
+      )!;
+      expect(extractSyncStateFromBody(epicCreate.body)?.content_hash).toBe('');
+    });
+
+    it('should record the content hash once the links are resolved', async () => {
+      const client = makeClient();
+      const issues = [
+        makeIssue('bd-epic', 'open', { issue_type: 'epic' }),
+        makeIssue('bd-child', 'open', { dependencies: [{ id: 'bd-epic', type: 'parent-child' }] }),
+      ];
+      const mapping = createEmptyMapping();
+
+      await runSync(issues, mapping, client as unknown as GitHubClient, makeConfig());
+
+      const [refresh] = client.updateIssue.mock.calls[0];
+      const hash = extractSyncStateFromBody(refresh.body)?.content_hash;
+      expect(hash).not.toBe('');
+      expect(mapping.mappings['bd-epic'].content_hash).toBe(hash);
+    });
+  });
+
+  describe('runSync - plan', () => {
+    it('should plan changes without applying them in dry-run mode', async () => {
+      const mockClient = {
+        createIssue: vi.fn(),
+        updateIssue: vi.fn(),
+        closeIssue: vi.fn(),
+        getIssue: vi.fn().mockResolvedValue({
+          number: 42,
+          id: 142,
+          state: 'open',
+          title: 'Issue bd-existing',
+          body: 'Old body',
+          labels: ['beads-synced', 'obsolete', 'triage'],
+          assignees: [],
+        }),
+        ensureLabels: vi.fn(),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+      const issues = [
+        makeIssue('bd-new'),
+        makeIssue('bd-existing', 'closed', { updated_at: '2025-01-02T00:00:00Z' }),
+      ];
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-existing', {
+        ...createIssueMapping(42, 142, '2025-01-01T00:00:00Z'),
+        synced_labels: ['beads-synced', 'obsolete'],
+      });
+
+      const result = await runSync(
+        issues,
+        mapping,
+        mockClient as unknown as GitHubClient,
+        makeConfig({ dryRun: true })
+      );
+
+      expect(mockClient.createIssue).not.toHaveBeenCalled();
+      expect(mockClient.updateIssue).not.toHaveBeenCalled();
+      expect(mockClient.closeIssue).not.toHaveBeenCalled();
+      expect(result.plan?.repository).toBe('test-owner/test-repo');
+      expect(result.plan?.issues.map((c) => [c.type, c.beads_id])).toEqual([
+        ['create', 'bd-new'],
+        ['close', 'bd-existing'],
+      ]);
+      const close = result.plan!.issues[1];
+      expect(close.before?.state).toBe('open');
+      expect(close.after.state).toBe('closed');
+      expect(close.after.labels).not.toContain('obsolete');
+      expect(close.after.labels).toContain('triage');
+      expect(close.body_diff).toContain('-Old body');
+    });
+
+    it('should not build a plan outside dry-run mode', async () => {
+      const mockClient = {
+        createIssue: vi.fn().mockResolvedValue({ number: 1, id: 100 }),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+      };
+
+      const result = await runSync(
+        [makeIssue('bd-new')],
+        createEmptyMapping(),
+        mockClient as unknown as GitHubClient,
+        makeConfig()
+      );
+
+      expect(result.plan).toBeUndefined();
+    });
+  });
+
+  describe('runSync - issue types', () => {
+    it('should set native issue types and fall back to type labels', async () => {
+      const mockClient = {
+        createIssue: vi.fn().mockResolvedValue({ number: 1, id: 100 }),
+        ensureLabels: vi.fn().mockResolvedValue(undefined),
+        isBudgetExhausted: vi.fn().mockReturnValue(false),
+        filterValidAssignees: vi.fn().mockResolvedValue([]),
+        listIssueTypes: vi.fn().mockResolvedValue(['Bug', 'Task']),
+      };
+      const issues = [
+        makeIssue('bd-bug', 'open', { issue_type: 'bug' }),
+        makeIssue('bd-epic', 'open', { issue_type: 'epic' }),
+      ];
+
+      const result = await runSync(
+        issues,
+        createEmptyMapping(),
+        mockClient as unknown as GitHubClient,
+        makeConfig({
+          issueTypes: true,
+          issueTypeMapping: { bug: 'Bug', feature: 'Feature', task: 'Task', epic: 'Epic', chore: 'Task' },
+        })
+      );
+
+      const [bugParams] = mockClient.createIssue.mock.calls[0];
+      const [epicParams] = mockClient.createIssue.mock.calls[1];
+      expect(bugParams.type).toBe('Bug');
+      expect(bugParams.labels).not.toContain('type:bug');
+      expect(epicParams.type).toBeUndefined();
+      expect(epicParams.labels).toContain('type:epic');
+      expect(result.unmappedIssueTypes).toEqual(['epic']);
+    });
+  });
+
+  describe('runSync - label cleanup', () => {
+    const makeClient = () => ({
+      ensureLabels: vi.fn().mockResolvedValue(undefined),
+      isBudgetExhausted: vi.fn().mockReturnValue(false),
+      listLabels: vi.fn().mockResolvedValue([
+        { name: 'epic:bd-epic', color: '5319e7', description: '' },
+        { name: 'epic:bd-gone', color: '5319e7', description: '' },
+        { name: 'frontend', color: 'ffffff', description: '' },
+      ]),
+      deleteLabel: vi.fn().mockResolvedValue(undefined),
+    });
+    const issues = [
+      makeIssue('bd-child', 'open', { dependencies: [{ id: 'bd-epic', type: 'parent-child' }] }),
+    ];
+    const syncedMapping = () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-child', {
+        ...createIssueMapping(1, 100, '2025-01-01T00:00:00Z'),
+        content_hash: computeContentHash(issues[0]),
+      });
+      return mapping;
+    };
+
+    it('should delete orphaned labels', async () => {
+      const client = makeClient();
+
+      const result = await runSync(
+        issues,
+        syncedMapping(),
+        client as unknown as GitHubClient,
+        makeConfig({ cleanupLabels: true })
+      );
+
+      expect(client.deleteLabel).toHaveBeenCalledTimes(1);
+      expect(client.deleteLabel).toHaveBeenCalledWith('epic:bd-gone');
+      expect(result.orphanedLabels).toEqual(['epic:bd-gone']);
+    });
+
+    it('should only report orphaned labels in dry-run mode', async () => {
+      const client = makeClient();
+
+      const result = await runSync(
+        issues,
+        syncedMapping(),
+        client as unknown as GitHubClient,
+        makeConfig({ cleanupLabels: true, dryRun: true })
+      );
+
+      expect(client.deleteLabel).not.toHaveBeenCalled();
+      expect(result.orphanedLabels).toEqual(['epic:bd-gone']);
+    });
+  });
 });
@@ -1,7 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { generateIssueBody, extractBeadsIdFromBody } from '../src/template';
+import {
+  generateIssueBody,
+  extractBeadsIdFromBody,
+  formatBeadsComment,
+  generateClosingComment,
+  generateDeletionComment,
+  isSyncerComment,
+} from '../src/template';
 import { BeadsIssue, MappingFile } from '../src/types';
 import { createEmptyMapping, setMapping, createIssueMapping } from '../src/mapper';
+import { extractSyncStateFromBody, computeContentHash } from '../src/state';
+import { compileTemplate } from '../src/templateconfig';
 
 describe('template', () => {
   const minimalIssue: BeadsIssue = {
@@ -158,6 +167,181 @@ describe('template', () => {
     });
   });
 
+  describe('epic children', () => {
+    const epic: BeadsIssue = { ...minimalIssue, id: 'bd-epic', issue_type: 'epic' };
+    const child = (id: string, overrides: Partial<BeadsIssue> = {}): BeadsIssue => ({
+      ...minimalIssue,
+      id,
+      title: `Child ${id}`,
+      dependencies: [{ id: 'bd-epic', type: 'parent-child' }],
+      ...overrides,
+    });
+
+    it('should list the children of an epic as a checklist', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-c1', createIssueMapping(123, 1, '2025-01-01T00:00:00Z'));
+      const issues = [epic, child('bd-c1', { status: 'closed' }), child('bd-c2'), minimalIssue];
+
+      const body = generateIssueBody(epic, mapping, { issues });
+
+      expect(body).toContain('### Children');
+      expect(body).toContain('- [x] #123 Child bd-c1');
+      expect(body).toContain('- [ ] `bd-c2` Child bd-c2');
+      expect(body).not.toContain('Test issue\n');
+      expect(body).not.toContain('mermaid');
+    });
+
+    it('should not list children for other issues or childless epics', () => {
+      const issues = [epic, child('bd-c1')];
+
+      expect(generateIssueBody(child('bd-c1'), createEmptyMapping(), { issues })).not.toContain(
+        '### Children'
+      );
+      expect(generateIssueBody(epic, createEmptyMapping(), { issues: [epic] })).not.toContain(
+        '### Children'
+      );
+    });
+
+    it('should render a Mermaid graph of blocking dependencies between children', () => {
+      const issues = [
+        epic,
+        child('bd-c1', { status: 'closed' }),
+        child('bd-c2', {
+          title: 'Say "hi"',
+          dependencies: [
+            { id: 'bd-epic', type: 'parent-child' },
+            { id: 'bd-c1', type: 'blocks' },
+            { id: 'bd-outside', type: 'blocks' },
+          ],
+        }),
+      ];
+
+      const body = generateIssueBody(epic, createEmptyMapping(), { issues, dependencyGraph: true });
+
+      expect(body).toContain('```mermaid\ngraph TD');
+      expect(body).toContain('bd_c1["bd-c1 Child bd-c1"]:::closed');
+      expect(body).toContain('bd_c2["bd-c2 Say #quot;hi#quot;"]');
+      expect(body).toContain('bd_c1 --> bd_c2');
+      expect(body).not.toContain('bd_outside');
+    });
+
+    it('should not render a graph when children do not block each other', () => {
+      const issues = [epic, child('bd-c1'), child('bd-c2')];
+
+      const body = generateIssueBody(epic, createEmptyMapping(), { issues, dependencyGraph: true });
+
+      expect(body).not.toContain('mermaid');
+    });
+
+    it('should include the children in the content hash', () => {
+      const issues = [epic, child('bd-c1')];
+
+      const open = extractSyncStateFromBody(generateIssueBody(epic, createEmptyMapping(), { issues }));
+      const closed = extractSyncStateFromBody(
+        generateIssueBody(epic, createEmptyMapping(), {
+          issues: [epic, child('bd-c1', { status: 'closed' })],
+        })
+      );
+
+      expect(open?.content_hash).not.toBe(computeContentHash(epic));
+      expect(open?.content_hash).not.toBe(closed?.content_hash);
+    });
+  });
+
+  describe('sync state block', () => {
+    it('should embed beads updated_at, content hash and comment mappings', () => {
+      const mapping = createEmptyMapping();
+      const issueMapping = createIssueMapping(42, 100, '2025-01-01T00:00:00Z');
+      issueMapping.comments['1'] = { github_comment_id: 999 };
+      setMapping(mapping, minimalIssue.id, issueMapping);
+
+      const body = generateIssueBody(minimalIssue, mapping);
+
+      expect(extractSyncStateFromBody(body)).toEqual({
+        beads_updated_at: minimalIssue.updated_at,
+        content_hash: computeContentHash(minimalIssue),
+        comments: { '1': { github_comment_id: 999 } },
+      });
+    });
+
+    it('should embed empty comment mappings for unmapped issues', () => {
+      const body = generateIssueBody(minimalIssue, createEmptyMapping());
+
+      expect(extractSyncStateFromBody(body)?.comments).toEqual({});
+    });
+  });
+
+  describe('custom templates', () => {
+    it('should render the issue body template between the marker and the sync state', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-dep', createIssueMapping(7, 700, '2025-01-01T00:00:00Z'));
+      const issue: BeadsIssue = {
+        ...minimalIssue,
+        description: 'A & B',
+        dependencies: [
+          { id: 'bd-dep', type: 'blocks' },
+          { id: 'bd-other', type: 'relates-to' },
+        ],
+      };
+      const issueBody = compileTemplate(
+        '{{description}}\n{{#each dependencies}}- {{ref id}} {{type}} {{github_issue_number}}\n{{/each}}' +
+          'Created {{date created_at}}'
+      );
+
+      const body = generateIssueBody(issue, mapping, { issues: [], templates: { issueBody } });
+
+      expect(body.startsWith('<!-- beads-sync:bd-abc123 -->\n\nA & B\n- #7 blocks 7\n')).toBe(true);
+      expect(body).toContain('- `bd-other` relates-to \n');
+      expect(body).toContain('Created 2025-11-25');
+      expect(body).not.toContain('[!CAUTION]');
+      expect(extractBeadsIdFromBody(body)).toBe('bd-abc123');
+      expect(extractSyncStateFromBody(body)?.content_hash).toBe(computeContentHash(issue));
+    });
+
+    it('should render comment templates with the comment marker', () => {
+      const templates = {
+        closingComment: compileTemplate('Done: {{close_reason}}'),
+        deletionComment: compileTemplate('{{id}} is gone'),
+        comment: compileTemplate('{{author}} on {{issue_id}}: {{body}}'),
+      };
+      const comment = { author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' };
+
+      const closing = generateClosingComment({ ...minimalIssue, close_reason: 'fixed' }, templates);
+      const formatted = formatBeadsComment(comment, 'bd-abc123', templates);
+
+      expect(closing.startsWith('Done: fixed\n')).toBe(true);
+      expect(generateDeletionComment('bd-abc123', templates)).toContain('bd-abc123 is gone');
+      expect(formatted.startsWith('alice on bd-abc123: Hi\n')).toBe(true);
+      expect(isSyncerComment(closing)).toBe(true);
+      expect(isSyncerComment(formatted)).toBe(true);
+    });
+
+    it('should keep the beads labels apart from the GitHub labels', () => {
+      const issueBody = compileTemplate('{{join labels}} / {{join githubLabels}}');
+
+      const body = generateIssueBody(
+        { ...minimalIssue, labels: ['frontend'] },
+        createEmptyMapping(),
+        { issues: [], labels: ['beads-synced', 'frontend'], templates: { issueBody } }
+      );
+
+      expect(body).toContain('frontend / beads-synced, frontend');
+    });
+
+    it('should resolve references to synced issues in comment templates', () => {
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-abc123', createIssueMapping(7, 700, '2025-01-01T00:00:00Z'));
+      const templates = {
+        closingComment: compileTemplate('Closed {{ref id}}'),
+        comment: compileTemplate('On {{ref issue_id}}'),
+      };
+      const comment = { author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' };
+
+      expect(generateClosingComment(minimalIssue, templates, mapping)).toContain('Closed #7');
+      expect(formatBeadsComment(comment, 'bd-abc123', templates, mapping)).toContain('On #7');
+    });
+  });
+
   describe('extractBeadsIdFromBody', () => {
     it('should extract beads ID from issue body', () => {
       const body = '<!-- beads-sync:bd-xyz789 -->\nSome content';
@@ -171,6 +355,11 @@ describe('template', () => {
       expect(extractBeadsIdFromBody(body)).toBeNull();
     });
 
+    it('should extract IDs with custom prefixes and child numbers', () => {
+      expect(extractBeadsIdFromBody('<!-- beads-sync:proj-a3f.1.2 -->')).toBe('proj-a3f.1.2');
+      expect(extractBeadsIdFromBody('<!-- beads-sync:my-app-x7k2 -->')).toBe('my-app-x7k2');
+    });
+
     it('should handle complex body with marker', () => {
       const body = `Some preamble
 <!-- beads-sync:bd-complex123 -->
@@ -180,4 +369,22 @@ More content here`;
       expect(extractBeadsIdFromBody(body)).toBe('bd-complex123');
     });
   });
+
+  describe('isSyncerComment', () => {
+    it('should recognize comments generated by the syncer', () => {
+      const comment = { author: 'alice', created_at: '2025-01-01T00:00:00Z', body: 'Hi' };
+
+      expect(isSyncerComment(formatBeadsComment(comment, 'bd-abc123'))).toBe(true);
+      expect(isSyncerComment(generateClosingComment(minimalIssue))).toBe(true);
+      expect(isSyncerComment(generateDeletionComment('bd-abc123'))).toBe(true);
+    });
+
+    it('should recognize comments posted before the comment marker existed', () => {
+      expect(isSyncerComment('Hi\n\n---\n*Synced from beads issue `bd-abc123`*')).toBe(true);
+    });
+
+    it('should not recognize human comments', () => {
+      expect(isSyncerComment('Looks good to me')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compileTemplate, loadTemplates } from '../src/templateconfig';
+import { getTemplateHelpers } from '../src/template';
+
+describe('templateconfig', () => {
+  describe('compileTemplate', () => {
+    it('should render without HTML escaping', () => {
+      const template = compileTemplate('{{title}} ({{join labels}})');
+
+      expect(template({ title: '<b> & "c"', labels: ['a', 'b'] }, getTemplateHelpers())).toBe(
+        '<b> & "c" (a, b)'
+      );
+    });
+
+    it('should report syntax errors with the template name', () => {
+      expect(() => compileTemplate('{{#if x}}open', 'issue-body.md')).toThrow(
+        'Invalid template issue-body.md'
+      );
+    });
+
+    it('should report rendering errors with the template name', () => {
+      const template = compileTemplate('{{unknown x}}', 'comment.md');
+
+      expect(() => template({ x: 1 }, getTemplateHelpers())).toThrow(
+        'Failed to render template comment.md'
+      );
+    });
+  });
+
+  describe('loadTemplates', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-templates-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should return undefined without directory', () => {
+      expect(loadTemplates('')).toBeUndefined();
+    });
+
+    it('should load the templates present in the directory', () => {
+      fs.writeFileSync(path.join(tmpDir, 'issue-body.md'), '{{title}}');
+      fs.writeFileSync(path.join(tmpDir, 'notes.md'), 'ignored');
+
+      const templates = loadTemplates(tmpDir);
+
+      expect(Object.keys(templates!)).toEqual(['issueBody']);
+      expect(templates!.issueBody!({ title: 'Hello' }, {})).toBe('Hello');
+    });
+
+    it('should fail for a missing or empty directory', () => {
+      expect(() => loadTemplates(path.join(tmpDir, 'missing'))).toThrow('Cannot read template dir');
+      expect(() => loadTemplates(tmpDir)).toThrow('No template found');
+    });
+  });
+});
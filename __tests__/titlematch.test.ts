@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findTitleMatches,
+  matchIssuesByTitle,
+  normalizeTitle,
+  titleSimilarity,
+} from '../src/titlematch';
+import { BeadsIssue, SyncConfig } from '../src/types';
+import { GitHubClient, GitHubIssue } from '../src/github';
+import { createEmptyMapping, createIssueMapping, setMapping } from '../src/mapper';
+
+describe('titlematch', () => {
+  const makeIssue = (id: string, title: string, overrides: Partial<BeadsIssue> = {}): BeadsIssue => ({
+    id,
+    title,
+    status: 'open',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const makeGitHubIssue = (number: number, title: string, labels: string[] = []): GitHubIssue => ({
+    number,
+    id: number * 100,
+    title,
+    state: 'open',
+    body: null,
+    labels,
+    created_at: '2025-01-01T00:00:00Z',
+  });
+
+  describe('normalizeTitle', () => {
+    it('should ignore case, punctuation and the beads ID prefix', () => {
+      expect(normalizeTitle('[bd-abc] Fix: the  Login-page!')).toBe('fix the login page');
+    });
+  });
+
+  describe('titleSimilarity', () => {
+    it('should score identical titles 1 and unrelated titles low', () => {
+      expect(titleSimilarity('Fix the login page', 'fix the login page.')).toBe(1);
+      expect(titleSimilarity('Fix the login page', 'Add dark mode')).toBeLessThan(0.3);
+    });
+
+    it('should score close titles high', () => {
+      expect(titleSimilarity('Fix the login page', 'Fix login page')).toBeGreaterThan(0.8);
+    });
+  });
+
+  describe('matchIssuesByTitle', () => {
+    it('should adopt matches above the threshold and report borderline ones', () => {
+      const result = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page'), makeIssue('bd-2', 'Add dark mode support')],
+        [makeGitHubIssue(10, 'Fix the login page'), makeGitHubIssue(11, 'Add dark mode')],
+        0.9
+      );
+
+      expect(result.adopted).toEqual([
+        { beads_id: 'bd-1', github_issue_number: 10, github_title: 'Fix the login page', score: 1 },
+      ]);
+      expect(result.borderline).toHaveLength(1);
+      expect(result.borderline[0]).toMatchObject({ beads_id: 'bd-2', github_issue_number: 11 });
+    });
+
+    it('should weigh the creation dates', () => {
+      const [recent] = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page')],
+        [makeGitHubIssue(10, 'Fix the login page')],
+        0.9
+      ).adopted;
+      const [old] = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page', { created_at: '2027-01-01T00:00:00Z' })],
+        [makeGitHubIssue(10, 'Fix the login page')],
+        0.9
+      ).adopted;
+
+      expect(recent.score).toBe(1);
+      expect(old.score).toBe(0.9);
+    });
+
+    it('should not adopt ambiguous matches', () => {
+      const result = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page')],
+        [makeGitHubIssue(10, 'Fix the login page'), makeGitHubIssue(11, 'Fix the login page!')],
+        0.9
+      );
+
+      expect(result.adopted).toEqual([]);
+      expect(result.borderline).toEqual([
+        { beads_id: 'bd-1', github_issue_number: 10, github_title: 'Fix the login page', score: 1 },
+      ]);
+    });
+
+    it('should prefer an exact title match over close ones', () => {
+      const result = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page')],
+        [makeGitHubIssue(10, 'Fix the login pages'), makeGitHubIssue(11, 'fix the LOGIN page')],
+        0.9
+      );
+
+      expect(result.adopted.map((match) => match.github_issue_number)).toEqual([11]);
+      expect(result.borderline).toEqual([]);
+    });
+
+    it('should ignore unrelated issues', () => {
+      const result = matchIssuesByTitle(
+        [makeIssue('bd-1', 'Fix the login page')],
+        [makeGitHubIssue(10, 'Add dark mode')],
+        0.9
+      );
+
+      expect(result).toEqual({ adopted: [], borderline: [] });
+    });
+  });
+
+  describe('findTitleMatches', () => {
+    const config = { labelPrefix: '', adoptThreshold: 0.9 } as SyncConfig;
+
+    it('should only match new beads issues against unsynced GitHub issues', async () => {
+      const listOpenIssues = vi.fn().mockResolvedValue([
+        makeGitHubIssue(1, 'Mapped issue'),
+        makeGitHubIssue(2, 'Synced issue', ['beads-synced']),
+        makeGitHubIssue(3, 'Referenced issue'),
+        makeGitHubIssue(4, 'New issue'),
+      ]);
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-mapped', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+
+      const result = await findTitleMatches(
+        [
+          makeIssue('bd-mapped', 'Mapped issue'),
+          makeIssue('bd-synced', 'Synced issue'),
+          makeIssue('bd-ref', 'Referenced issue', { external_ref: 'gh-3' }),
+          makeIssue('bd-new', 'New issue'),
+        ],
+        mapping,
+        { listOpenIssues } as unknown as GitHubClient,
+        config
+      );
+
+      expect(result.adopted.map((match) => [match.beads_id, match.github_issue_number])).toEqual([
+        ['bd-new', 4],
+      ]);
+      expect(result.borderline).toEqual([]);
+    });
+
+    it('should not list GitHub issues when every beads issue is mapped', async () => {
+      const listOpenIssues = vi.fn();
+      const mapping = createEmptyMapping();
+      setMapping(mapping, 'bd-mapped', createIssueMapping(1, 100, '2025-01-01T00:00:00Z'));
+
+      const result = await findTitleMatches(
+        [makeIssue('bd-mapped', 'Mapped issue')],
+        mapping,
+        { listOpenIssues } as unknown as GitHubClient,
+        config
+      );
+
+      expect(listOpenIssues).not.toHaveBeenCalled();
+      expect(result).toEqual({ adopted: [], borderline: [] });
+    });
+  });
+});
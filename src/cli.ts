@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+
+import { SyncConfig } from './types';
+import { buildConfig, SyncOptionName, SYNC_OPTION_NAMES } from './config';
+import {
+  computeSyncStatus,
+  executeMigration,
+  executeSync,
+  logMigrationSummary,
+  logSyncSummary,
+  SyncStatus,
+} from './runner';
+import { renderPlanMarkdown } from './plan';
+
+const CLI_COMMANDS = ['sync', 'plan', 'status', 'migrate'] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/**
+ * Prefix of the environment variables holding CLI options
+ * e.g. `BEADS_SYNCED_LABEL_PREFIX` for `--label-prefix`
+ */
+const ENV_PREFIX = 'BEADS_SYNCED_';
+
+const USAGE = `Usage: beads-synced [sync|plan|status|migrate] [options]
+
+Commands:
+  sync      Sync beads issues to GitHub (default)
+  plan      Show what a sync would change, without applying it
+  status    Show pending changes between beads and GitHub
+  migrate   Rewrite synced issues to the mapping base (--migrate-mapping)
+
+Options:
+  --config <file>        JSON file holding options, keyed by option name
+  --repository <owner/repo>
+${SYNC_OPTION_NAMES.map((name) => `  --${name} <value>`).join('\n')}
+
+Every option can also be set through an environment variable, e.g.
+${ENV_PREFIX}LABEL_PREFIX for --label-prefix. GITHUB_TOKEN and GITHUB_REPOSITORY
+are used when no token or repository is given.`;
+
+/**
+ * Parsed command line invocation
+ */
+export interface CliInvocation {
+  command: CliCommand;
+  config: SyncConfig;
+}
+
+/**
+ * Name of the environment variable holding an option
+ */
+function toEnvName(name: string): string {
+  return `${ENV_PREFIX}${name.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Read a JSON config file into raw option values
+ * Lists are joined with commas, as in the action inputs
+ */
+function readConfigFile(filePath: string): Record<string, string> {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, unknown>;
+  const options: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    options[name] = Array.isArray(value) ? value.join(',') : String(value);
+  }
+  return options;
+}
+
+/**
+ * Parse the command line into a command and a sync config
+ * Options are read from flags, then environment variables, then the config file
+ */
+export function parseCli(
+  argv: string[],
+  env: Record<string, string | undefined>
+): CliInvocation {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      repository: { type: 'string' },
+      ...Object.fromEntries(
+        SYNC_OPTION_NAMES.map((name) => [name, { type: 'string' as const }])
+      ),
+    },
+  });
+
+  const command = (positionals[0] ?? 'sync') as CliCommand;
+  if (!CLI_COMMANDS.includes(command)) {
+    throw new Error(`Unknown command: ${command}`);
+  }
+
+  const configFile = values.config ?? env[toEnvName('config')];
+  const fileOptions = configFile ? readConfigFile(configFile) : {};
+  const getRawOption = (name: string): string =>
+    (values as Record<string, string | undefined>)[name] ??
+    env[toEnvName(name)] ??
+    fileOptions[name] ??
+    '';
+
+  const repository = getRawOption('repository') || env.GITHUB_REPOSITORY || '';
+  const [owner, repo] = repository.split('/');
+  if (!owner || !repo) {
+    throw new Error('Option required and not supplied: repository (owner/repo)');
+  }
+
+  const getOption = (name: SyncOptionName): string =>
+    getRawOption(name) || (name === 'github-token' ? env.GITHUB_TOKEN ?? '' : '');
+
+  const config = buildConfig(getOption, owner, repo);
+  if (command === 'plan') {
+    config.dryRun = true;
+  }
+  if (command === 'migrate') {
+    config.migrateMapping = true;
+  }
+
+  return { command, config };
+}
+
+/**
+ * Log the pending changes between beads and GitHub
+ */
+function logSyncStatus(status: SyncStatus): void {
+  const { diff } = status;
+  const countActions = (type: string) =>
+    diff.actions.filter((action) => action.type === type).length;
+
+  core.info('');
+  core.info('=== Sync Status ===');
+  core.info(`Beads issues: ${status.total} (${status.inScope} in scope)`);
+  core.info(`Mapped to GitHub: ${status.mapped}`);
+  core.info(
+    `Pending: ${countActions('create')} to create, ${countActions('update')} to update, ` +
+      `${countActions('close')} to close, ${countActions('reopen')} to reopen, ` +
+      `${countActions('adopt')} to adopt`
+  );
+  core.info(
+    `Comments: ${diff.commentActions.length} new, ${diff.commentUpdateActions.length} edited, ` +
+      `${diff.commentDeleteActions.length} deleted`
+  );
+  core.info(`GitHub issues without beads issue: ${diff.deletedIssueIds.length}`);
+
+  for (const action of diff.actions) {
+    core.info(`  ${action.type} ${action.beadsIssue.id}: ${action.reason}`);
+  }
+}
+
+/**
+ * CLI entry point
+ */
+async function main(argv: string[]): Promise<void> {
+  if (argv.includes('--help') || argv.includes('-h') || argv[0] === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  try {
+    const { command, config } = parseCli(argv, process.env);
+
+    if (command === 'status') {
+      const status = await computeSyncStatus(config);
+      if (status) {
+        logSyncStatus(status);
+      }
+      return;
+    }
+
+    if (config.migrateMapping) {
+      const migration = await executeMigration(config);
+      logMigrationSummary(migration, config);
+      return;
+    }
+
+    const outcome = await executeSync(config);
+    if (!outcome) {
+      return;
+    }
+    logSyncSummary(outcome, config);
+    if (outcome.result.plan) {
+      core.info('');
+      core.info(renderPlanMarkdown(outcome.result.plan));
+    }
+    if (outcome.result.errors.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(`Sync failed: ${error}`);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
@@ -1,25 +1,59 @@
-import { CommentSyncAction, MappingFile } from './types';
+import {
+  CommentSyncAction,
+  CommentUpdateAction,
+  CommentDeleteAction,
+  MappingFile,
+  SyncTemplates,
+} from './types';
 import { GitHubClient } from './github';
 import { formatBeadsComment } from './template';
-import { setCommentMapping } from './mapper';
+import { setCommentMapping, removeCommentMapping } from './mapper';
+import { computeCommentHash } from './state';
+import { runWithConcurrency, groupBy } from './concurrency';
 import * as core from '@actions/core';
 
+/**
+ * Prefix of the beads comment IDs given to comments imported from GitHub
+ */
+const IMPORTED_COMMENT_PREFIX = 'gh-';
+
+/**
+ * Get the beads comment ID for a comment imported from GitHub
+ */
+export function getImportedCommentId(githubCommentId: number): string {
+  return `${IMPORTED_COMMENT_PREFIX}${githubCommentId}`;
+}
+
+/**
+ * Check whether a beads comment was imported from GitHub
+ * Such comments already exist on GitHub and are never synced back
+ */
+export function isImportedComment(commentId: string): boolean {
+  return commentId.startsWith(IMPORTED_COMMENT_PREFIX);
+}
+
 /**
  * Sync beads comments to GitHub issue comments
+ * Comments of different issues are posted concurrently, those of the same
+ * issue one after the other to keep their order.
  * Returns the number of comments synced
  */
 export async function syncComments(
   commentActions: CommentSyncAction[],
   mapping: MappingFile,
   client: GitHubClient,
-  dryRun: boolean
+  dryRun: boolean,
+  concurrency: number = 1,
+  templates?: SyncTemplates
 ): Promise<number> {
   let synced = 0;
 
-  for (const action of commentActions) {
+  const syncComment = async (action: CommentSyncAction): Promise<void> => {
     const formattedBody = formatBeadsComment(
       action.comment,
-      action.beadsIssueId
+      action.beadsIssueId,
+      templates,
+      mapping
     );
 
     if (dryRun) {
@@ -27,7 +61,7 @@ export async function syncComments(
         `[DRY RUN] Would create comment on #${action.githubIssueNumber} ` +
           `(beads comment ${action.comment.id} by ${action.comment.author})`
       );
-      continue;
+      return;
     }
 
     try {
@@ -41,7 +75,8 @@ export async function syncComments(
         mapping,
         action.beadsIssueId,
         action.comment.id,
-        result.id
+        result.id,
+        computeCommentHash(action.comment)
       );
 
       core.info(
@@ -54,7 +89,90 @@ export async function syncComments(
         `Failed to create comment on #${action.githubIssueNumber}: ${error}`
       );
     }
-  }
+  };
+
+  const byIssue = groupBy(commentActions, (action) => action.githubIssueNumber);
+  await runWithConcurrency(byIssue, concurrency, async (actions) => {
+    for (const action of actions) {
+      await syncComment(action);
+    }
+  });
 
   return synced;
 }
+
+/**
+ * Propagate beads comment edits and deletions to the synced GitHub comments
+ * Returns the number of comments updated and deleted
+ */
+export async function syncCommentChanges(
+  updateActions: CommentUpdateAction[],
+  deleteActions: CommentDeleteAction[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  dryRun: boolean,
+  concurrency: number = 1,
+  templates?: SyncTemplates
+): Promise<{ updated: number; deleted: number }> {
+  let updated = 0;
+  let deleted = 0;
+
+  await runWithConcurrency(updateActions, concurrency, async (action) => {
+    if (dryRun) {
+      core.info(
+        `[DRY RUN] Would update comment ${action.githubCommentId} on #${action.githubIssueNumber} ` +
+          `(beads comment ${action.comment.id})`
+      );
+      return;
+    }
+
+    try {
+      await client.updateComment(
+        action.githubCommentId,
+        formatBeadsComment(action.comment, action.beadsIssueId, templates, mapping)
+      );
+      setCommentMapping(
+        mapping,
+        action.beadsIssueId,
+        action.comment.id,
+        action.githubCommentId,
+        computeCommentHash(action.comment)
+      );
+      core.info(
+        `Updated comment on #${action.githubIssueNumber} ` +
+          `(beads comment ${action.comment.id})`
+      );
+      updated++;
+    } catch (error) {
+      core.warning(
+        `Failed to update comment on #${action.githubIssueNumber}: ${error}`
+      );
+    }
+  });
+
+  await runWithConcurrency(deleteActions, concurrency, async (action) => {
+    if (dryRun) {
+      core.info(
+        `[DRY RUN] Would delete comment ${action.githubCommentId} on #${action.githubIssueNumber} ` +
+          `(beads comment ${action.commentId} removed)`
+      );
+      return;
+    }
+
+    try {
+      await client.deleteComment(action.githubCommentId);
+      removeCommentMapping(mapping, action.beadsIssueId, action.commentId);
+      core.info(
+        `Deleted comment on #${action.githubIssueNumber} ` +
+          `(beads comment ${action.commentId} removed)`
+      );
+      deleted++;
+    } catch (error) {
+      core.warning(
+        `Failed to delete comment on #${action.githubIssueNumber}: ${error}`
+      );
+    }
+  });
+
+  return { updated, deleted };
+}
@@ -0,0 +1,35 @@
+/**
+ * Run a task for each item with at most `limit` tasks in flight
+ * Items are started in order. Tasks are expected to handle their own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+
+  const size = Math.min(Math.max(Math.floor(limit) || 1, 1), items.length);
+  await Promise.all(Array.from({ length: size }, worker));
+}
+
+/**
+ * Group items by key, keeping the order of the items within each group
+ */
+export function groupBy<T, K>(items: T[], key: (item: T) => K): T[][] {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,200 @@
+import {
+  SyncConfig,
+  BeadsStatus,
+  BeadsPriority,
+  MappingStoreType,
+  ReverseSyncMode,
+  ConflictPolicy,
+  MappingBase,
+  CrossLinkMode,
+  ProjectFieldKey,
+  BeadsIssueType,
+} from './types';
+import { loadLabelScheme } from './labelconfig';
+import { loadTemplates } from './templateconfig';
+
+/**
+ * Names of the sync options, shared by the action inputs and the CLI flags
+ */
+export const SYNC_OPTION_NAMES = [
+  'github-token',
+  'beads-file',
+  'dry-run',
+  'sync-comments',
+  'sync-statuses',
+  'sync-priorities',
+  'sync-labels',
+  'label-prefix',
+  'label-config',
+  'template-dir',
+  'add-sync-marker',
+  'cleanup-labels',
+  'close-deleted',
+  'adopt-by-title',
+  'adopt-threshold',
+  'api-budget',
+  'concurrency',
+  'mapping-base',
+  'migrate-mapping',
+  'mapping-store',
+  'mapping-file',
+  'mapping-branch',
+  'reverse-sync',
+  'reverse-sync-file',
+  'conflict-policy',
+  'plan-file',
+  'pr-preview',
+  'sub-issues',
+  'cross-links',
+  'dependency-graph',
+  'project-url',
+  'project-fields',
+  'issue-types',
+  'issue-type-mapping',
+] as const;
+
+export type SyncOptionName = (typeof SYNC_OPTION_NAMES)[number];
+
+/**
+ * Read the raw value of an option, returning an empty string when unset
+ */
+export type OptionReader = (name: SyncOptionName) => string;
+
+/**
+ * Pick a value among the allowed ones, falling back to a default
+ */
+function parseChoice<T extends string>(value: string, choices: T[], fallback: T): T {
+  return choices.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Parse the title match score required for automatic adoption, 0.9 by default
+ */
+function parseThreshold(value: string): number {
+  const threshold = parseFloat(value);
+  return threshold > 0 && threshold <= 1 ? threshold : 0.9;
+}
+
+/**
+ * Parse `key=Field Name` pairs naming the project field of each beads field
+ * Fields that are not listed keep their default name
+ */
+function parseProjectFields(value: string): Record<ProjectFieldKey, string> {
+  const fields: Record<ProjectFieldKey, string> = {
+    priority: 'Priority',
+    status: 'Status',
+    type: 'Type',
+    estimate: 'Estimate',
+  };
+  for (const pair of value.split(',')) {
+    const [key, name] = pair.split('=').map((s) => s.trim());
+    if (key in fields && name !== undefined) {
+      fields[key as ProjectFieldKey] = name;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Parse `beadsType=Type Name` pairs naming the native issue type of each
+ * beads issue type. Types that are not listed keep their default name.
+ */
+function parseIssueTypeMapping(value: string): Record<BeadsIssueType, string> {
+  const mapping: Record<BeadsIssueType, string> = {
+    bug: 'Bug',
+    feature: 'Feature',
+    task: 'Task',
+    epic: 'Epic',
+    chore: 'Chore',
+  };
+  for (const pair of value.split(',')) {
+    const [key, name] = pair.split('=').map((s) => s.trim());
+    if (key in mapping && name !== undefined) {
+      mapping[key as BeadsIssueType] = name;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Build the sync config from raw option values
+ */
+export function buildConfig(
+  getOption: OptionReader,
+  owner: string,
+  repo: string
+): SyncConfig {
+  const githubToken = getOption('github-token');
+  if (!githubToken) {
+    throw new Error('Option required and not supplied: github-token');
+  }
+
+  // Parse status list
+  const statusStr = getOption('sync-statuses') || 'open,in_progress,blocked,closed';
+  const syncStatuses = statusStr.split(',').map((s) => s.trim()) as BeadsStatus[];
+
+  // Parse priority list
+  const priorityStr = getOption('sync-priorities') || '0,1,2,3,4';
+  const syncPriorities = priorityStr
+    .split(',')
+    .map((p) => parseInt(p.trim(), 10)) as BeadsPriority[];
+
+  // Parse label filter
+  const labelsStr = getOption('sync-labels') || '';
+  const syncLabels = labelsStr
+    ? labelsStr.split(',').map((l) => l.trim())
+    : [];
+
+  const labelPrefix = getOption('label-prefix') || '';
+
+  return {
+    githubToken,
+    beadsFile: getOption('beads-file') || '.beads/issues.jsonl',
+    dryRun: getOption('dry-run') === 'true',
+    syncComments: getOption('sync-comments') !== 'false',
+    syncStatuses,
+    syncPriorities,
+    syncLabels,
+    labelPrefix,
+    labelScheme: loadLabelScheme(getOption('label-config'), labelPrefix),
+    templates: loadTemplates(getOption('template-dir')),
+    addSyncMarker: getOption('add-sync-marker') !== 'false',
+    cleanupLabels: getOption('cleanup-labels') === 'true',
+    closeDeleted: getOption('close-deleted') !== 'false',
+    adoptByTitle: getOption('adopt-by-title') === 'true',
+    adoptThreshold: parseThreshold(getOption('adopt-threshold')),
+    apiBudget: parseInt(getOption('api-budget') || '0', 10) || 0,
+    concurrency: Math.max(parseInt(getOption('concurrency') || '4', 10) || 4, 1),
+    mappingBase: parseChoice<MappingBase>(getOption('mapping-base'), ['title', 'label', 'body'], 'title'),
+    migrateMapping: getOption('migrate-mapping') === 'true',
+    mappingStore: parseChoice<MappingStoreType>(
+      getOption('mapping-store'),
+      ['github-scan', 'file', 'git-branch'],
+      'github-scan'
+    ),
+    mappingFile: getOption('mapping-file') || '.beads/github-mapping.json',
+    mappingBranch: getOption('mapping-branch') || 'beads-sync-state',
+    reverseSync: parseChoice<ReverseSyncMode>(
+      getOption('reverse-sync'),
+      ['off', 'patch', 'apply'],
+      'off'
+    ),
+    reverseSyncFile: getOption('reverse-sync-file') || '.beads/github-changes.jsonl',
+    conflictPolicy: parseChoice<ConflictPolicy>(
+      getOption('conflict-policy'),
+      ['beads-wins', 'github-wins', 'newest-wins'],
+      'beads-wins'
+    ),
+    planFile: getOption('plan-file') || 'beads-sync-plan.json',
+    prPreview: getOption('pr-preview') === 'true',
+    subIssues: getOption('sub-issues') === 'true',
+    crossLinks: parseChoice<CrossLinkMode>(getOption('cross-links'), ['off', 'comment', 'native'], 'off'),
+    dependencyGraph: getOption('dependency-graph') === 'true',
+    projectUrl: getOption('project-url') || '',
+    projectFields: parseProjectFields(getOption('project-fields')),
+    issueTypes: getOption('issue-types') === 'true',
+    issueTypeMapping: parseIssueTypeMapping(getOption('issue-type-mapping')),
+    owner,
+    repo,
+  };
+}
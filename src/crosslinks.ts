@@ -0,0 +1,149 @@
+import * as core from '@actions/core';
+import { BeadsIssue, CrossLinkMapping, CrossLinkMode, DependencyType, MappingFile } from './types';
+import { GitHubClient } from './github';
+import { getMapping } from './mapper';
+import { generateCrossLinkComment } from './template';
+
+/**
+ * Result of the cross-linking pass
+ */
+export interface CrossLinkSyncResult {
+  added: number;
+  removed: number;
+  /** Beads issues whose cross-links changed */
+  changedIds: string[];
+}
+
+/**
+ * Cross-link wanted for a dependency of an issue
+ */
+interface WantedCrossLink {
+  /** `blocked-by` for blocking dependencies, `relates-to` otherwise */
+  type: DependencyType;
+  targetId: string;
+  targetNumber: number;
+  targetIssueId: number;
+}
+
+/**
+ * Get the cross-links wanted for the dependencies of an issue, keyed by `type:beadsId`
+ * Parent-child dependencies are left to sub-issues, and dependencies on
+ * issues not synced to GitHub can't be linked.
+ */
+function getWantedCrossLinks(issue: BeadsIssue, mapping: MappingFile): Map<string, WantedCrossLink> {
+  const wanted = new Map<string, WantedCrossLink>();
+
+  for (const dep of issue.dependencies ?? []) {
+    if (dep.type === 'parent-child' || dep.id === issue.id) {
+      continue;
+    }
+    const target = getMapping(mapping, dep.id);
+    if (!target) {
+      continue;
+    }
+    // Both blocking dependency types mean the issue is blocked by the dependency
+    const type: DependencyType = dep.type === 'relates-to' ? 'relates-to' : 'blocked-by';
+    wanted.set(`${type}:${dep.id}`, {
+      type,
+      targetId: dep.id,
+      targetNumber: target.github_issue_number,
+      targetIssueId: target.github_issue_id,
+    });
+  }
+
+  return wanted;
+}
+
+/**
+ * Link each GitHub issue to the GitHub issues of its related beads issues
+ *
+ * Links are cross-reference comments on the dependent issue, or with the
+ * `native` mode "blocked by" relationships for blocking dependencies when the
+ * repository supports them. The links are tracked in the mapping, so each is
+ * created once and removed when its dependency goes away.
+ */
+export async function syncCrossLinks(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  mode: CrossLinkMode,
+  dryRun: boolean
+): Promise<CrossLinkSyncResult> {
+  const result: CrossLinkSyncResult = { added: 0, removed: 0, changedIds: [] };
+  let nativeAvailable = mode === 'native';
+
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!issueMapping) {
+      continue;
+    }
+
+    const issueNumber = issueMapping.github_issue_number;
+    const wanted = getWantedCrossLinks(issue, mapping);
+    const links: Record<string, CrossLinkMapping> = { ...issueMapping.cross_links };
+    let changed = false;
+
+    for (const [key, link] of Object.entries(links)) {
+      if (wanted.has(key)) {
+        continue;
+      }
+      if (dryRun) {
+        core.info(`[DRY RUN] Would remove cross-link ${key} from #${issueNumber}`);
+        continue;
+      }
+      try {
+        if (link.github_comment_id) {
+          await client.deleteComment(link.github_comment_id);
+        }
+        if (link.blocked_by_issue_id) {
+          await client.removeBlockedBy(issueNumber, link.blocked_by_issue_id);
+        }
+        delete links[key];
+        changed = true;
+        result.removed++;
+        core.info(`Removed cross-link ${key} from #${issueNumber}`);
+      } catch (error) {
+        core.warning(`Failed to remove cross-link ${key} from #${issueNumber}: ${error}`);
+      }
+    }
+
+    for (const [key, link] of wanted) {
+      if (links[key]) {
+        continue;
+      }
+      if (dryRun) {
+        core.info(`[DRY RUN] Would cross-link #${issueNumber} to #${link.targetNumber} (${link.type})`);
+        continue;
+      }
+      try {
+        if (nativeAvailable && link.type === 'blocked-by') {
+          if (await client.addBlockedBy(issueNumber, link.targetIssueId)) {
+            links[key] = { blocked_by_issue_id: link.targetIssueId };
+          } else {
+            core.warning('Issue dependencies are not available, cross-linking with comments instead');
+            nativeAvailable = false;
+          }
+        }
+        if (!links[key]) {
+          const comment = await client.createComment(
+            issueNumber,
+            generateCrossLinkComment(issue.id, link.type, link.targetId, link.targetNumber)
+          );
+          links[key] = { github_comment_id: comment.id };
+        }
+        changed = true;
+        result.added++;
+        core.info(`Cross-linked #${issueNumber} to #${link.targetNumber} (${link.type})`);
+      } catch (error) {
+        core.warning(`Failed to cross-link #${issueNumber} to #${link.targetNumber}: ${error}`);
+      }
+    }
+
+    if (changed) {
+      issueMapping.cross_links = Object.keys(links).length > 0 ? links : undefined;
+      result.changedIds.push(issue.id);
+    }
+  }
+
+  return result;
+}
@@ -4,9 +4,15 @@ import {
   IssueMapping,
   SyncAction,
   CommentSyncAction,
+  CommentUpdateAction,
+  CommentDeleteAction,
   DiffResult,
+  TitleMatch,
 } from './types';
 import { getMapping, getMappedBeadsIds } from './mapper';
+import { computeContentHash, computeCommentHash } from './state';
+import { isImportedComment } from './comments';
+import { getEpicChildren } from './template';
 
 const GITHUB_EXTERNAL_REF_PATTERN = /^gh-(\d+)$/;
 
@@ -25,26 +31,41 @@ export function parseExternalRef(externalRef: string): number | null {
 
 /**
  * Check if a beads issue needs to be synced based on updated_at timestamp
+ * and, when known, the content hash recorded at the last sync
+ * `related` is the content of other issues rendered in the issue body
  */
 export function needsUpdate(
   issue: BeadsIssue,
-  mapping: IssueMapping
+  mapping: IssueMapping,
+  related?: unknown
 ): boolean {
   const beadsUpdated = new Date(issue.updated_at).getTime();
   const lastSynced = new Date(mapping.beads_updated_at).getTime();
-  return beadsUpdated > lastSynced;
+  if (beadsUpdated > lastSynced) {
+    return true;
+  }
+  return (
+    mapping.content_hash !== undefined &&
+    mapping.content_hash !== computeContentHash(issue, related)
+  );
 }
 
 /**
  * Compute the diff between beads issues and existing GitHub mappings
  * Returns the list of actions needed to sync
+ * `allIssues` are all parsed issues, including those filtered out of the sync
+ * `titleMatches` are the GitHub issues to adopt for new issues by title
  */
 export function computeDiff(
   issues: BeadsIssue[],
-  mapping: MappingFile
+  mapping: MappingFile,
+  allIssues: BeadsIssue[] = issues,
+  titleMatches: TitleMatch[] = []
 ): DiffResult {
   const actions: SyncAction[] = [];
   const commentActions: CommentSyncAction[] = [];
+  const commentUpdateActions: CommentUpdateAction[] = [];
+  const commentDeleteActions: CommentDeleteAction[] = [];
   const deletedIssueIds: string[] = [];
 
   const beadsIds = new Set(issues.map((i) => i.id));
@@ -79,6 +100,18 @@ export function computeDiff(
         }
       }
 
+      const titleMatch = titleMatches.find((match) => match.beads_id === issue.id);
+      if (titleMatch) {
+        actions.push({
+          type: 'adopt',
+          beadsIssue: issue,
+          githubIssueNumber: titleMatch.github_issue_number,
+          reason: `Adopting existing GitHub issue with matching title (score ${titleMatch.score})`,
+        });
+        commentActions.push(...getNewComments(issue, null, titleMatch.github_issue_number));
+        continue;
+      }
+
       // Regular new issue
       actions.push({
         type: 'create',
@@ -88,9 +121,25 @@ export function computeDiff(
       continue;
     }
 
-    // Existing issue - check if update needed
-    if (needsUpdate(issue, existingMapping)) {
-      if (issue.status === 'closed') {
+    // Existing issue - the GitHub state must always match the beads status
+    const githubState = existingMapping.github_state;
+    if (issue.status === 'closed' && githubState === 'open') {
+      actions.push({
+        type: 'close',
+        beadsIssue: issue,
+        githubIssueNumber: existingMapping.github_issue_number,
+        reason: 'Beads issue closed',
+      });
+    } else if (issue.status !== 'closed' && githubState === 'closed') {
+      actions.push({
+        type: 'reopen',
+        beadsIssue: issue,
+        githubIssueNumber: existingMapping.github_issue_number,
+        reason: 'GitHub issue closed while beads issue is open',
+      });
+    } else if (needsUpdate(issue, existingMapping, getEpicChildren(issue, allIssues, mapping))) {
+      // An unknown GitHub state is assumed to need closing
+      if (issue.status === 'closed' && githubState !== 'closed') {
         actions.push({
           type: 'close',
           beadsIssue: issue,
@@ -114,9 +163,57 @@ export function computeDiff(
       existingMapping.github_issue_number
     );
     commentActions.push(...newComments);
+
+    // Check for edited and deleted comments
+    const changes = getChangedComments(issue, existingMapping);
+    commentUpdateActions.push(...changes.updates);
+    commentDeleteActions.push(...changes.deletions);
+  }
+
+  return {
+    actions,
+    commentActions,
+    commentUpdateActions,
+    commentDeleteActions,
+    deletedIssueIds,
+  };
+}
+
+/**
+ * Get synced comments that were edited or removed in beads
+ * Comments synced without a body hash cannot be checked for edits
+ */
+function getChangedComments(
+  issue: BeadsIssue,
+  existingMapping: IssueMapping
+): { updates: CommentUpdateAction[]; deletions: CommentDeleteAction[] } {
+  const updates: CommentUpdateAction[] = [];
+  const deletions: CommentDeleteAction[] = [];
+  const commentsById = new Map((issue.comments ?? []).map((c) => [c.id, c]));
+
+  for (const [commentId, commentMapping] of Object.entries(existingMapping.comments ?? {})) {
+    const comment = commentsById.get(commentId);
+    if (!comment) {
+      deletions.push({
+        beadsIssueId: issue.id,
+        githubIssueNumber: existingMapping.github_issue_number,
+        githubCommentId: commentMapping.github_comment_id,
+        commentId,
+      });
+    } else if (
+      commentMapping.body_hash !== undefined &&
+      commentMapping.body_hash !== computeCommentHash(comment)
+    ) {
+      updates.push({
+        beadsIssueId: issue.id,
+        githubIssueNumber: existingMapping.github_issue_number,
+        githubCommentId: commentMapping.github_comment_id,
+        comment,
+      });
+    }
   }
 
-  return { actions, commentActions, deletedIssueIds };
+  return { updates, deletions };
 }
 
 /**
@@ -136,7 +233,10 @@ function getNewComments(
   );
 
   return issue.comments
-    .filter((comment) => !syncedCommentIds.has(comment.id))
+    .filter(
+      (comment) =>
+        !syncedCommentIds.has(comment.id) && !isImportedComment(comment.id)
+    )
     .map((comment) => ({
       beadsIssueId: issue.id,
       githubIssueNumber,
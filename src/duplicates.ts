@@ -0,0 +1,103 @@
+import * as core from '@actions/core';
+import { BeadsIssue, DuplicateCollision, MappingFile, SyncConfig } from './types';
+import { GitHubClient } from './github';
+import { getMapping, pickCanonicalIssue, setMapping } from './mapper';
+import { parseExternalRef } from './diff';
+import { isSyncerLabel } from './labels';
+import { generateDuplicateComment } from './template';
+
+/**
+ * GitHub's default label for duplicate issues
+ */
+export const DUPLICATE_LABEL = 'duplicate';
+
+/**
+ * Pick the canonical issue again for beads issues adopting one of their duplicates
+ * The mapper doesn't know the beads issues, so it can't apply the adoption rule.
+ */
+export function resolveAdoptedDuplicates(issues: BeadsIssue[], mapping: MappingFile): void {
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    const adoptedNumber = issue.external_ref ? parseExternalRef(issue.external_ref) : null;
+    if (!issueMapping?.duplicates || adoptedNumber === null) {
+      continue;
+    }
+    setMapping(
+      mapping,
+      issue.id,
+      pickCanonicalIssue([issueMapping, ...issueMapping.duplicates], adoptedNumber)
+    );
+  }
+}
+
+/**
+ * Close the GitHub issues claiming the beads ID of another issue
+ *
+ * Each duplicate gets a "Duplicate of #N" comment pointing to the canonical
+ * issue, loses its syncer labels so later scans ignore it, is marked with the
+ * `duplicate` label and closed.
+ */
+export async function closeDuplicates(
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<DuplicateCollision[]> {
+  const collisions: DuplicateCollision[] = [];
+
+  for (const [beadsId, issueMapping] of Object.entries(mapping.mappings)) {
+    if (!issueMapping.duplicates) {
+      continue;
+    }
+
+    const canonical = issueMapping.github_issue_number;
+    const collision: DuplicateCollision = { beadsId, canonical, duplicates: [] };
+    collisions.push(collision);
+    core.warning(
+      `${beadsId} is claimed by #${canonical} and ` +
+        issueMapping.duplicates.map((duplicate) => `#${duplicate.github_issue_number}`).join(', ')
+    );
+
+    if (config.dryRun) {
+      for (const duplicate of issueMapping.duplicates) {
+        core.info(`[DRY RUN] Would close #${duplicate.github_issue_number} as duplicate of #${canonical}`);
+        collision.duplicates.push(duplicate.github_issue_number);
+      }
+      continue;
+    }
+
+    // A canonical issue known from a stored mapping may have been deleted since
+    if (!(await client.getIssue(canonical))) {
+      core.warning(`Not closing the duplicates of ${beadsId}: #${canonical} no longer exists`);
+      continue;
+    }
+
+    const remaining = [];
+    for (const duplicate of issueMapping.duplicates) {
+      const issueNumber = duplicate.github_issue_number;
+      try {
+        const current = await client.getIssue(issueNumber);
+        if (current) {
+          await client.createComment(issueNumber, generateDuplicateComment(beadsId, canonical));
+          const labels = current.labels.filter(
+            (label) =>
+              !isSyncerLabel(label, config.labelPrefix, config.labelScheme) &&
+              !duplicate.synced_labels?.includes(label)
+          );
+          await client.updateIssue({
+            issueNumber,
+            state: 'closed',
+            labels: [...labels, DUPLICATE_LABEL],
+          });
+        }
+        core.info(`Closed #${issueNumber} as duplicate of #${canonical}`);
+        collision.duplicates.push(issueNumber);
+      } catch (error) {
+        core.warning(`Failed to close #${issueNumber} as duplicate of #${canonical}: ${error}`);
+        remaining.push(duplicate);
+      }
+    }
+    issueMapping.duplicates = remaining.length > 0 ? remaining : undefined;
+  }
+
+  return collisions;
+}
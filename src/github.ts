@@ -1,11 +1,15 @@
 import { Octokit } from '@octokit/rest';
 import * as core from '@actions/core';
 import { LabelConfig } from './types';
+import { diffLabels } from './labels';
+import { RequestPolicy, RequestPolicyOptions } from './ratelimit';
 
 export interface GitHubClientConfig {
   token: string;
   owner: string;
   repo: string;
+  /** Throttling, retries and API call budget of the requests */
+  requestPolicy?: RequestPolicyOptions;
 }
 
 export interface CreateIssueParams {
@@ -13,6 +17,8 @@ export interface CreateIssueParams {
   body: string;
   labels?: string[];
   assignees?: string[];
+  /** Name of the native issue type */
+  type?: string;
 }
 
 export interface UpdateIssueParams {
@@ -22,15 +28,85 @@ export interface UpdateIssueParams {
   labels?: string[];
   assignees?: string[];
   state?: 'open' | 'closed';
+  type?: string;
 }
 
 export interface GitHubIssue {
   number: number;
   id: number;
+  node_id?: string;
   state: 'open' | 'closed';
   title: string;
   body: string | null;
   labels: string[];
+  assignees?: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GitHubComment {
+  id: number;
+  issueNumber: number;
+  author: string;
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Field of a GitHub project (v2)
+ * `options` are only set for single-select fields
+ */
+export interface ProjectField {
+  id: string;
+  name: string;
+  dataType: string;
+  options?: Array<{ id: string; name: string }>;
+}
+
+export interface Project {
+  id: string;
+  fields: ProjectField[];
+}
+
+/**
+ * Value of a project field: a single-select option or a number
+ */
+export type ProjectFieldValue = { singleSelectOptionId: string } | { number: number };
+
+/**
+ * Issue fields returned by the GitHub REST API
+ */
+interface RawIssue {
+  number: number;
+  id: number;
+  node_id?: string;
+  state: string;
+  title: string;
+  body?: string | null;
+  labels: Array<string | { name?: string }>;
+  assignees?: Array<{ login: string }> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Convert an issue returned by the REST API to a GitHubIssue
+ */
+function toGitHubIssue(data: RawIssue): GitHubIssue {
+  return {
+    number: data.number,
+    id: data.id,
+    node_id: data.node_id,
+    state: data.state as 'open' | 'closed',
+    title: data.title,
+    body: data.body ?? null,
+    labels: data.labels.map((l) =>
+      typeof l === 'string' ? l : l.name ?? ''
+    ),
+    assignees: (data.assignees ?? []).map((a) => a.login),
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+  };
 }
 
 /**
@@ -38,15 +114,38 @@ export interface GitHubIssue {
  */
 export class GitHubClient {
   private octokit: Octokit;
+  private policy: RequestPolicy;
   private owner: string;
   private repo: string;
+  private issueTypes?: Promise<string[]>;
+  private labels?: Map<string, LabelConfig>;
+  private assignees = new Map<string, Promise<boolean>>();
 
   constructor(config: GitHubClientConfig) {
     this.octokit = new Octokit({ auth: config.token });
+    this.policy = new RequestPolicy(config.requestPolicy);
+    this.octokit.hook.wrap('request', (request, options) =>
+      this.policy.send(options.method, async () => request(options))
+    );
     this.owner = config.owner;
     this.repo = config.repo;
   }
 
+  /**
+   * Number of API calls made by this client
+   */
+  get apiCalls(): number {
+    return this.policy.callCount;
+  }
+
+  /**
+   * Whether the API call budget of the run is used up
+   * The sync stops starting new work once it is.
+   */
+  isBudgetExhausted(): boolean {
+    return this.policy.exhausted;
+  }
+
   /**
    * Create a new issue
    */
@@ -58,18 +157,10 @@ export class GitHubClient {
       body: params.body,
       labels: params.labels,
       assignees: params.assignees,
+      ...(params.type ? { type: params.type } : {}),
     });
 
-    return {
-      number: response.data.number,
-      id: response.data.id,
-      state: response.data.state as 'open' | 'closed',
-      title: response.data.title,
-      body: response.data.body ?? null,
-      labels: response.data.labels.map((l) =>
-        typeof l === 'string' ? l : l.name ?? ''
-      ),
-    };
+    return toGitHubIssue(response.data);
   }
 
   /**
@@ -85,18 +176,10 @@ export class GitHubClient {
       labels: params.labels,
       assignees: params.assignees,
       state: params.state,
+      ...(params.type ? { type: params.type } : {}),
     });
 
-    return {
-      number: response.data.number,
-      id: response.data.id,
-      state: response.data.state as 'open' | 'closed',
-      title: response.data.title,
-      body: response.data.body ?? null,
-      labels: response.data.labels.map((l) =>
-        typeof l === 'string' ? l : l.name ?? ''
-      ),
-    };
+    return toGitHubIssue(response.data);
   }
 
   /**
@@ -110,16 +193,7 @@ export class GitHubClient {
         issue_number: issueNumber,
       });
 
-      return {
-        number: response.data.number,
-        id: response.data.id,
-        state: response.data.state as 'open' | 'closed',
-        title: response.data.title,
-        body: response.data.body ?? null,
-        labels: response.data.labels.map((l) =>
-          typeof l === 'string' ? l : l.name ?? ''
-        ),
-      };
+      return toGitHubIssue(response.data);
     } catch (error) {
       if ((error as { status?: number }).status === 404) {
         return null;
@@ -173,55 +247,368 @@ export class GitHubClient {
   }
 
   /**
-   * Ensure a label exists, creating it if necessary
+   * Update the body of a comment
+   */
+  async updateComment(commentId: number, body: string): Promise<void> {
+    await this.octokit.issues.updateComment({
+      owner: this.owner,
+      repo: this.repo,
+      comment_id: commentId,
+      body,
+    });
+  }
+
+  /**
+   * Delete a comment
+   * A comment that no longer exists is considered deleted
    */
-  async ensureLabel(label: LabelConfig): Promise<void> {
+  async deleteComment(commentId: number): Promise<void> {
     try {
-      await this.octokit.issues.getLabel({
+      await this.octokit.issues.deleteComment({
         owner: this.owner,
         repo: this.repo,
-        name: label.name,
+        comment_id: commentId,
       });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List issue comments of the repository (paginated)
+   * Optionally only those updated since the given ISO timestamp
+   */
+  async listRepoComments(since?: string): Promise<GitHubComment[]> {
+    const comments: GitHubComment[] = [];
+
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.issues.listCommentsForRepo,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        since,
+        per_page: 100,
+      }
+    )) {
+      for (const comment of response.data) {
+        const issueNumber = parseInt(comment.issue_url.split('/').pop() ?? '', 10);
+        comments.push({
+          id: comment.id,
+          issueNumber,
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body ?? '',
+          created_at: comment.created_at,
+        });
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * List the names of the native issue types of the repository owner
+   * Owners without issue types (e.g. users) and tokens not allowed to read
+   * them have none, so the type labels are used instead. Cached per client.
+   */
+  async listIssueTypes(): Promise<string[]> {
+    if (!this.issueTypes) {
+      this.issueTypes = this.octokit
+        .request('GET /orgs/{org}/issue-types', { org: this.owner })
+        .then((response) => (response.data as Array<{ name: string }>).map((t) => t.name))
+        .catch((error) => {
+          const status = (error as { status?: number }).status;
+          if (status === 403 || status === 404) {
+            core.warning(
+              `Issue types of ${this.owner} not available (HTTP ${status}), using type labels`
+            );
+            return [];
+          }
+          this.issueTypes = undefined;
+          throw error;
+        });
+    }
+    return this.issueTypes;
+  }
+
+  /**
+   * Get a project (v2) and its fields
+   * Returns null if the project is not found
+   */
+  async getProject(
+    ownerType: 'organization' | 'user',
+    login: string,
+    projectNumber: number
+  ): Promise<Project | null> {
+    const response = await this.octokit.graphql<
+      Record<string, { projectV2: { id: string; fields: { nodes: ProjectField[] } } | null } | null>
+    >(
+      `query($login: String!, $number: Int!) {
+        owner: ${ownerType}(login: $login) {
+          projectV2(number: $number) {
+            id
+            fields(first: 100) {
+              nodes {
+                ... on ProjectV2FieldCommon { id name dataType }
+                ... on ProjectV2SingleSelectField { options { id name } }
+              }
+            }
+          }
+        }
+      }`,
+      { login, number: projectNumber }
+    );
+
+    const project = response.owner?.projectV2;
+    return project ? { id: project.id, fields: project.fields.nodes } : null;
+  }
+
+  /**
+   * Add an issue to a project (v2), returning the project item ID
+   * Adding an issue already in the project returns its existing item
+   */
+  async addProjectItem(projectId: string, issueNodeId: string): Promise<string> {
+    const response = await this.octokit.graphql<{
+      addProjectV2ItemById: { item: { id: string } };
+    }>(
+      `mutation($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+          item { id }
+        }
+      }`,
+      { projectId, contentId: issueNodeId }
+    );
+
+    return response.addProjectV2ItemById.item.id;
+  }
+
+  /**
+   * Set the value of a field of a project (v2) item
+   */
+  async updateProjectItemField(
+    projectId: string,
+    itemId: string,
+    fieldId: string,
+    value: ProjectFieldValue
+  ): Promise<void> {
+    await this.octokit.graphql(
+      `mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+        updateProjectV2ItemFieldValue(
+          input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }
+        ) {
+          projectV2Item { id }
+        }
+      }`,
+      { projectId, itemId, fieldId, value }
+    );
+  }
+
+  /**
+   * Link an issue as sub-issue of a parent issue, replacing its current parent
+   */
+  async addSubIssue(parentIssueNumber: number, subIssueId: number): Promise<void> {
+    await this.octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: parentIssueNumber,
+      sub_issue_id: subIssueId,
+      replace_parent: true,
+    });
+  }
+
+  /**
+   * Unlink a sub-issue from its parent issue
+   * A link that no longer exists is considered removed
+   */
+  async removeSubIssue(parentIssueNumber: number, subIssueId: number): Promise<void> {
+    try {
+      await this.octokit.request('DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue', {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: parentIssueNumber,
+        sub_issue_id: subIssueId,
+      });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Mark an issue as blocked by another issue
+   * Returns false when issue dependencies are not available in the repository
+   */
+  async addBlockedBy(issueNumber: number, blockingIssueId: number): Promise<boolean> {
+    try {
+      await this.octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by', {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber,
+        issue_id: blockingIssueId,
+      });
+      return true;
     } catch (error) {
       if ((error as { status?: number }).status === 404) {
-        await this.octokit.issues.createLabel({
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a "blocked by" relationship between two issues
+   * A relationship that no longer exists is considered removed
+   */
+  async removeBlockedBy(issueNumber: number, blockingIssueId: number): Promise<void> {
+    try {
+      await this.octokit.request(
+        'DELETE /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by/{issue_id}',
+        {
           owner: this.owner,
           repo: this.repo,
+          issue_number: issueNumber,
+          issue_id: blockingIssueId,
+        }
+      );
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List the comments of an issue or pull request (paginated)
+   */
+  async listIssueComments(issueNumber: number): Promise<GitHubComment[]> {
+    const comments: GitHubComment[] = [];
+
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.issues.listComments,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber,
+        per_page: 100,
+      }
+    )) {
+      for (const comment of response.data) {
+        comments.push({
+          id: comment.id,
+          issueNumber,
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body ?? '',
+          created_at: comment.created_at,
+        });
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * List the labels of the repository (paginated)
+   * Cached per client and kept up to date with the label changes it makes
+   */
+  async listLabels(): Promise<LabelConfig[]> {
+    if (this.labels) {
+      return [...this.labels.values()];
+    }
+
+    const labels: LabelConfig[] = [];
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.issues.listLabelsForRepo,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        per_page: 100,
+      }
+    )) {
+      for (const label of response.data) {
+        labels.push({
           name: label.name,
           color: label.color,
-          description: label.description,
+          description: label.description ?? '',
         });
-        core.info(`Created label: ${label.name}`);
-      } else {
+      }
+    }
+
+    this.labels = new Map(labels.map((label) => [label.name.toLowerCase(), label]));
+    return labels;
+  }
+
+  /**
+   * Delete a label from the repository
+   * A label that no longer exists is considered deleted
+   */
+  async deleteLabel(name: string): Promise<void> {
+    try {
+      await this.octokit.issues.deleteLabel({
+        owner: this.owner,
+        repo: this.repo,
+        name,
+      });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
         throw error;
       }
     }
+    this.labels?.delete(name.toLowerCase());
   }
 
   /**
-   * Ensure all required labels exist
+   * Ensure all required labels exist with their color and description
+   * The repository labels are listed once: only missing labels are created
+   * and only labels whose color or description drifted are updated.
    */
   async ensureLabels(labels: LabelConfig[]): Promise<void> {
-    for (const label of labels) {
-      await this.ensureLabel(label);
+    const { missing, drifted } = diffLabels(await this.listLabels(), labels);
+
+    for (const label of missing) {
+      await this.octokit.issues.createLabel({
+        owner: this.owner,
+        repo: this.repo,
+        name: label.name,
+        color: label.color,
+        description: label.description,
+      });
+      this.labels?.set(label.name.toLowerCase(), label);
+      core.info(`Created label: ${label.name}`);
+    }
+
+    for (const label of drifted) {
+      await this.octokit.issues.updateLabel({
+        owner: this.owner,
+        repo: this.repo,
+        name: label.name,
+        color: label.color,
+        description: label.description,
+      });
+      this.labels?.set(label.name.toLowerCase(), label);
+      core.info(`Updated label: ${label.name}`);
     }
   }
 
   /**
    * Validate that an assignee is valid for this repository
-   * Returns true if valid, false otherwise
+   * Returns true if valid, false otherwise. Cached per client.
    */
   async validateAssignee(username: string): Promise<boolean> {
-    try {
-      const response = await this.octokit.issues.checkUserCanBeAssigned({
-        owner: this.owner,
-        repo: this.repo,
-        assignee: username,
-      });
-      return response.status === 204;
-    } catch {
-      return false;
+    let valid = this.assignees.get(username);
+    if (!valid) {
+      valid = this.octokit.issues
+        .checkUserCanBeAssigned({
+          owner: this.owner,
+          repo: this.repo,
+          assignee: username,
+        })
+        .then((response) => response.status === 204)
+        .catch(() => false);
+      this.assignees.set(username, valid);
     }
+    return valid;
   }
 
   /**
@@ -244,9 +631,13 @@ export class GitHubClient {
 
   /**
    * List all issues with a specific label (paginated)
-   * Returns both open and closed issues
+   * Returns both open and closed issues, optionally only those updated since
+   * the given ISO timestamp
    */
-  async listIssuesByLabel(labelName: string): Promise<GitHubIssue[]> {
+  async listIssuesByLabel(
+    labelName: string,
+    since?: string
+  ): Promise<GitHubIssue[]> {
     const issues: GitHubIssue[] = [];
 
     // Fetch open issues
@@ -257,6 +648,7 @@ export class GitHubClient {
         repo: this.repo,
         labels: labelName,
         state: 'all',
+        since,
         per_page: 100,
       }
     )) {
@@ -265,19 +657,124 @@ export class GitHubClient {
         if (issue.pull_request) {
           continue;
         }
-        issues.push({
-          number: issue.number,
-          id: issue.id,
-          state: issue.state as 'open' | 'closed',
-          title: issue.title,
-          body: issue.body ?? null,
-          labels: issue.labels.map((l) =>
-            typeof l === 'string' ? l : l.name ?? ''
-          ),
-        });
+        issues.push(toGitHubIssue(issue));
       }
     }
 
     return issues;
   }
+
+  /**
+   * List the open issues of the repository (paginated), pull requests excluded
+   */
+  async listOpenIssues(): Promise<GitHubIssue[]> {
+    const issues: GitHubIssue[] = [];
+
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.issues.listForRepo,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        state: 'open',
+        per_page: 100,
+      }
+    )) {
+      for (const issue of response.data) {
+        if (!issue.pull_request) {
+          issues.push(toGitHubIssue(issue));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Read a file from the repository at the given branch
+   * Returns null if the file or the branch does not exist
+   */
+  async getFileContent(
+    path: string,
+    branch: string
+  ): Promise<{ content: string; sha: string } | null> {
+    try {
+      const response = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path,
+        ref: branch,
+      });
+
+      if (Array.isArray(response.data) || response.data.type !== 'file') {
+        throw new Error(`${path} is not a file on branch ${branch}`);
+      }
+
+      return {
+        content: Buffer.from(response.data.content, 'base64').toString('utf-8'),
+        sha: response.data.sha,
+      };
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure a branch exists, creating it from the default branch if necessary
+   */
+  async ensureBranch(branch: string): Promise<void> {
+    try {
+      await this.octokit.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch,
+      });
+      return;
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+
+    const repository = await this.octokit.repos.get({
+      owner: this.owner,
+      repo: this.repo,
+    });
+    const base = await this.octokit.git.getRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${repository.data.default_branch}`,
+    });
+    await this.octokit.git.createRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `refs/heads/${branch}`,
+      sha: base.data.object.sha,
+    });
+    core.info(`Created branch: ${branch}`);
+  }
+
+  /**
+   * Create or update a file on a branch
+   * `sha` is the blob SHA of the file being replaced, if it exists
+   */
+  async writeFileContent(
+    path: string,
+    branch: string,
+    content: string,
+    message: string,
+    sha?: string
+  ): Promise<void> {
+    await this.octokit.repos.createOrUpdateFileContents({
+      owner: this.owner,
+      repo: this.repo,
+      path,
+      branch,
+      message,
+      content: Buffer.from(content, 'utf-8').toString('base64'),
+      sha,
+    });
+  }
 }
@@ -1,64 +1,51 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import * as fs from 'fs';
 
-import { SyncConfig, BeadsStatus, BeadsPriority, SYNC_MARKER_LABEL } from './types';
-import { parseBeadsFile } from './parser';
-import { buildMappingFromGitHubIssues } from './mapper';
-import { GitHubClient } from './github';
-import { runSync } from './sync';
+import { SyncConfig } from './types';
+import { buildConfig } from './config';
+import { executeMigration, executeSync, logMigrationSummary, logSyncSummary } from './runner';
+import { renderPlanMarkdown } from './plan';
 
 /**
  * Get action inputs and build config
  */
 function getConfig(): SyncConfig {
   const { owner, repo } = github.context.repo;
+  const config = buildConfig((name) => core.getInput(name), owner, repo);
 
-  // Parse status list
-  const statusStr = core.getInput('sync-statuses') || 'open,in_progress,blocked,closed';
-  const syncStatuses = statusStr.split(',').map((s) => s.trim()) as BeadsStatus[];
-
-  // Parse priority list
-  const priorityStr = core.getInput('sync-priorities') || '0,1,2,3,4';
-  const syncPriorities = priorityStr
-    .split(',')
-    .map((p) => parseInt(p.trim(), 10)) as BeadsPriority[];
-
-  // Parse label filter
-  const labelsStr = core.getInput('sync-labels') || '';
-  const syncLabels = labelsStr
-    ? labelsStr.split(',').map((l) => l.trim())
-    : [];
-
-  const userMappingBase = core.getInput('mapping-base')
-  const mappingBase = ['label', 'title'].includes(userMappingBase) ? userMappingBase as 'label' | 'title' : 'title';
-
-  return {
-    githubToken: core.getInput('github-token', { required: true }),
-    beadsFile: core.getInput('beads-file') || '.beads/issues.jsonl',
-    dryRun: core.getInput('dry-run') === 'true',
-    syncComments: core.getInput('sync-comments') !== 'false',
-    syncStatuses,
-    syncPriorities,
-    syncLabels,
-    labelPrefix: core.getInput('label-prefix') || '',
-    addSyncMarker: core.getInput('add-sync-marker') !== 'false',
-    closeDeleted: core.getInput('close-deleted') !== 'false',
-    mappingBase,
-    owner,
-    repo,
-  };
+  // Pull requests only preview the changes their merge would apply
+  const pullRequest = github.context.payload.pull_request;
+  if (pullRequest && config.prPreview) {
+    config.dryRun = true;
+    config.pullRequest = pullRequest.number;
+  }
+
+  return config;
 }
 
 /**
- * Read file content, returning empty string if not found
+ * Migrate the synced issues to the configured mapping base
  */
-function readFileOrEmpty(filePath: string): string {
-  try {
-    return fs.readFileSync(filePath, 'utf-8');
-  } catch {
-    return '';
-  }
+async function runMigration(config: SyncConfig): Promise<void> {
+  const result = await executeMigration(config);
+
+  core.setOutput('migrated', result.migrated.toString());
+  core.setOutput('migration-conflicts', result.conflicts.length.toString());
+  logMigrationSummary(result, config);
+
+  core.summary
+    .addHeading('Beads Mapping Migration Summary')
+    .addTable([
+      ['Mapping base:', config.mappingBase],
+      [config.dryRun ? 'To migrate:' : 'Migrated:', `${result.migrated}`],
+      ['Already migrated:', `${result.unchanged}`],
+      ['Conflicts:', `${result.conflicts.length}`],
+      ...result.conflicts.map((conflict) => [
+        conflict.issueNumbers.map((number) => `#${number}`).join(', '),
+        conflict.reason,
+      ]),
+    ]);
+  await core.summary.write();
 }
 
 /**
@@ -68,74 +55,36 @@ async function run(): Promise<void> {
   try {
     const config = getConfig();
 
-    core.info(`Beads Syncer starting...`);
-    core.info(`Repository: ${config.owner}/${config.repo}`);
-    core.info(`Beads file: ${config.beadsFile}`);
-    if (config.dryRun) {
-      core.info('DRY RUN MODE - no changes will be made');
-    }
-
-    // Read beads file
-    const beadsContent = readFileOrEmpty(config.beadsFile);
-    if (!beadsContent) {
-      core.warning(`Beads file not found: ${config.beadsFile}`);
-      core.info('Nothing to sync');
+    if (config.migrateMapping) {
+      await runMigration(config);
       return;
     }
 
-    // Parse beads issues
-    const parseResult = parseBeadsFile(beadsContent);
-    core.info(`Parsed ${parseResult.issues.length} issues`);
-
-    if (parseResult.errors.length > 0) {
-      core.warning(`${parseResult.errors.length} parse errors:`);
-      for (const err of parseResult.errors) {
-        core.warning(`  Line ${err.line}: ${err.error}`);
-      }
-    }
-
-    if (parseResult.issues.length === 0) {
-      core.info('No valid issues to sync');
+    const outcome = await executeSync(config);
+    if (!outcome) {
       return;
     }
-
-    // Create GitHub client
-    const client = new GitHubClient({
-      token: config.githubToken,
-      owner: config.owner,
-      repo: config.repo,
-    });
-
-    // Build mapping from existing GitHub issues
-    // This replaces the file-based mapping with a dynamic approach
-    const syncMarkerLabel = `${config.labelPrefix}${SYNC_MARKER_LABEL.name}`;
-    core.info(`Fetching existing synced issues with label: ${syncMarkerLabel}`);
-    const existingIssues = await client.listIssuesByLabel(syncMarkerLabel);
-    core.info(`Found ${existingIssues.length} existing synced issues`);
-
-    const mapping = buildMappingFromGitHubIssues(existingIssues, config.labelPrefix, config.mappingBase);
-    core.info(`Built mapping with ${Object.keys(mapping.mappings).length} entries`);
-
-    // Run sync
-    const result = await runSync(parseResult.issues, mapping, client, config);
+    const { result, reverse } = outcome;
 
     // Set outputs
     core.setOutput('created', result.created.toString());
     core.setOutput('updated', result.updated.toString());
     core.setOutput('closed', result.closed.toString());
     core.setOutput('comments-synced', result.commentsSynced.toString());
+    core.setOutput('comments-updated', result.commentsUpdated.toString());
+    core.setOutput('comments-deleted', result.commentsDeleted.toString());
+    core.setOutput('imported', reverse.mutations.length.toString());
+    core.setOutput('conflicts', reverse.conflicts.length.toString());
+    core.setOutput('budget-exhausted', result.budgetExhausted.toString());
+    core.setOutput('duplicates', JSON.stringify(result.duplicates));
+    if (result.plan) {
+      core.setOutput('plan-file', config.planFile);
+    }
 
     // Summary
-    core.info('');
-    core.info('=== Sync Summary ===');
-    core.info(`Created: ${result.created}`);
-    core.info(`Updated: ${result.updated}`);
-    core.info(`Closed: ${result.closed}`);
-    core.info(`Reopened: ${result.reopened}`);
-    core.info(`Adopted: ${result.adopted}`);
-    core.info(`Comments synced: ${result.commentsSynced}`);
-
-    await core.summary
+    logSyncSummary(outcome, config);
+
+    core.summary
       .addHeading('Beads Issues Synchronization Summary')
       .addTable([
         ['Created:', `${result.created}`],
@@ -143,16 +92,57 @@ async function run(): Promise<void> {
         ['Closed:', `${result.closed}`],
         ['Reopened:', `${result.reopened}`],
         ['Adopted:', `${result.adopted}`],
-        ['Comments synced:', `${result.commentsSynced}`]
+        ['Comments synced:', `${result.commentsSynced}`],
+        ['Comments updated:', `${result.commentsUpdated}`],
+        ['Comments deleted:', `${result.commentsDeleted}`],
+        ...result.duplicates.map((collision) => [
+          `Duplicates of ${collision.beadsId}:`,
+          `kept #${collision.canonical}, ${config.dryRun ? 'to close' : 'closed'} ` +
+            (collision.duplicates.map((number) => `#${number}`).join(', ') || 'none'),
+        ]),
+        ...(config.adoptByTitle
+          ? [['Borderline title matches:', `${result.borderlineTitleMatches.length}`]]
+          : []),
+        ...(config.subIssues
+          ? [
+              ['Sub-issues linked:', `${result.subIssuesLinked}`],
+              ['Sub-issues unlinked:', `${result.subIssuesUnlinked}`],
+            ]
+          : []),
+        ...(config.crossLinks !== 'off'
+          ? [
+              ['Cross-links added:', `${result.crossLinksAdded}`],
+              ['Cross-links removed:', `${result.crossLinksRemoved}`],
+            ]
+          : []),
+        ...(config.projectUrl
+          ? [['Project items synced:', `${result.projectItemsSynced}`]]
+          : []),
+        ...(config.issueTypes
+          ? [['Unmapped issue types:', result.unmappedIssueTypes.join(', ') || 'none']]
+          : []),
+        ...(config.cleanupLabels
+          ? [
+              [
+                config.dryRun ? 'Orphaned labels to delete:' : 'Orphaned labels deleted:',
+                `${result.orphanedLabels.length}`,
+              ],
+            ]
+          : []),
+        ['API calls:', `${outcome.apiCalls}`],
+        ...(result.budgetExhausted ? [['API call budget:', 'exhausted, changes remaining']] : []),
+        ...(config.reverseSync !== 'off'
+          ? [
+              ['Imported from GitHub:', `${reverse.mutations.length}`],
+              ['Conflicts:', `${reverse.conflicts.length}`],
+            ]
+          : []),
       ])
-      .write()
 
-    if (result.errors.length > 0) {
-      core.warning(`Errors: ${result.errors.length}`);
-      for (const err of result.errors) {
-        core.warning(`  ${err.beadsIssueId} (${err.action}): ${err.message}`);
-      }
+    if (result.plan) {
+      core.summary.addRaw(renderPlanMarkdown(result.plan), true);
     }
+    await core.summary.write();
 
     core.info('Sync complete!');
   } catch (error) {
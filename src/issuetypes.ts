@@ -0,0 +1,35 @@
+import { BeadsIssue, BeadsIssueType } from './types';
+
+/**
+ * Find the native issue type of a beads issue type
+ * Returns the type name as defined by the organization, or undefined if the
+ * beads type is not mapped or the mapped type does not exist
+ */
+export function resolveIssueType(
+  issueType: BeadsIssueType | undefined,
+  typeMapping: Record<BeadsIssueType, string>,
+  orgTypes: string[]
+): string | undefined {
+  const typeName = issueType ? typeMapping[issueType] : undefined;
+  if (!typeName) {
+    return undefined;
+  }
+  return orgTypes.find((t) => t.toLowerCase() === typeName.toLowerCase());
+}
+
+/**
+ * List the beads issue types used by the issues that have no native issue type
+ */
+export function findUnmappedIssueTypes(
+  issues: BeadsIssue[],
+  typeMapping: Record<BeadsIssueType, string>,
+  orgTypes: string[]
+): BeadsIssueType[] {
+  const unmapped = new Set<BeadsIssueType>();
+  for (const issue of issues) {
+    if (issue.issue_type && !resolveIssueType(issue.issue_type, typeMapping, orgTypes)) {
+      unmapped.add(issue.issue_type);
+    }
+  }
+  return [...unmapped].sort();
+}
@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { BeadsIssueType, BeadsPriority, LabelConfig, LabelScheme } from './types';
+import { getDefaultLabelScheme } from './labels';
+
+const COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+const LABEL_FIELDS = ['name', 'color', 'description'];
+
+/**
+ * Single generated labels that can be customized, by config key
+ */
+const SINGLE_LABEL_KEYS = {
+  'sync-marker': 'syncMarker',
+  blocked: 'blocked',
+  'in-progress': 'inProgress',
+} as const;
+
+const CONFIG_KEYS = ['priority', 'type', 'labels', ...Object.keys(SINGLE_LABEL_KEYS)];
+
+/**
+ * Build the error reported for an invalid label config entry
+ */
+function invalid(source: string, path: string, message: string): Error {
+  return new Error(`Invalid label config ${source}: ${path}: ${message}`);
+}
+
+/**
+ * Check whether a parsed value is a plain key/value object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve the customization of a generated label
+ *
+ * `false` disables the label, a string maps it to an existing repository
+ * label and an object renames, recolors or redescribes it.
+ * Returns undefined when the label is disabled.
+ */
+function resolveLabel(
+  value: unknown,
+  defaults: LabelConfig,
+  scheme: LabelScheme,
+  source: string,
+  path: string
+): LabelConfig | undefined {
+  if (value === false) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    if (!value.trim()) {
+      throw invalid(source, path, 'label name must not be empty');
+    }
+    scheme.existing.push(value);
+    return { ...defaults, name: value };
+  }
+
+  if (!isObject(value)) {
+    throw invalid(
+      source,
+      path,
+      'expected false, an existing label name or an object with name, color and description'
+    );
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!LABEL_FIELDS.includes(field)) {
+      throw invalid(source, `${path}.${field}`, `unknown field, expected one of ${LABEL_FIELDS.join(', ')}`);
+    }
+  }
+  const { name, color, description } = value;
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    throw invalid(source, `${path}.name`, 'label name must be a non-empty string');
+  }
+  const colorMatch = color === undefined ? null : String(color).match(COLOR_PATTERN);
+  if (color !== undefined && !colorMatch) {
+    throw invalid(source, `${path}.color`, `"${color}" is not a hex color such as "d73a4a"`);
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw invalid(source, `${path}.description`, 'description must be a string');
+  }
+
+  return {
+    name: (name as string | undefined) ?? defaults.name,
+    color: colorMatch ? colorMatch[1].toLowerCase() : defaults.color,
+    description: (description as string | undefined) ?? defaults.description,
+  };
+}
+
+/**
+ * Resolve the customizations of a group of generated labels keyed by
+ * priority or type
+ */
+function resolveLabelGroup<K extends string | number>(
+  value: unknown,
+  labels: Partial<Record<K, LabelConfig>>,
+  scheme: LabelScheme,
+  source: string,
+  path: string
+): void {
+  if (!isObject(value)) {
+    throw invalid(source, path, 'expected an object');
+  }
+
+  const keys = Object.keys(labels);
+  for (const [key, entry] of Object.entries(value)) {
+    if (!keys.includes(key)) {
+      throw invalid(source, `${path}.${key}`, `unknown ${path}, expected one of ${keys.join(', ')}`);
+    }
+    const k = (path === 'priority' ? Number(key) : key) as K;
+    const label = resolveLabel(entry, labels[k]!, scheme, source, `${path}.${key}`);
+    if (label) {
+      labels[k] = label;
+    } else {
+      delete labels[k];
+    }
+  }
+}
+
+/**
+ * Reject label names used for two different purposes
+ */
+function checkDuplicateNames(scheme: LabelScheme, source: string): void {
+  const owners = new Map<string, string>();
+  const claim = (name: string, path: string) => {
+    const owner = owners.get(name);
+    if (owner) {
+      throw invalid(source, path, `label "${name}" is already used by ${owner}`);
+    }
+    owners.set(name, path);
+  };
+
+  for (const [key, label] of Object.entries(scheme.priority)) {
+    claim(label!.name, `priority.${key}`);
+  }
+  for (const [key, label] of Object.entries(scheme.type)) {
+    claim(label!.name, `type.${key}`);
+  }
+  for (const [key, field] of Object.entries(SINGLE_LABEL_KEYS)) {
+    const label = scheme[field];
+    if (label) {
+      claim(label.name, key);
+    }
+  }
+  for (const [beadsLabel, name] of Object.entries(scheme.customLabels)) {
+    claim(name, `labels.${beadsLabel}`);
+  }
+}
+
+/**
+ * Parse a label config file (YAML or JSON) into a label scheme
+ * The label prefix applies to the built-in names only; names given in the
+ * config are used as is. Throws a descriptive error when the config is invalid.
+ */
+export function parseLabelConfig(
+  content: string,
+  prefix: string = '',
+  source: string = 'label-config'
+): LabelScheme {
+  let config: unknown;
+  try {
+    config = parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid label config ${source}: ${(error as Error).message}`);
+  }
+
+  const scheme = getDefaultLabelScheme(prefix);
+  if (config === null || config === undefined) {
+    return scheme;
+  }
+  if (!isObject(config)) {
+    throw invalid(source, '(root)', 'expected an object');
+  }
+
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      throw invalid(source, key, `unknown key, expected one of ${CONFIG_KEYS.join(', ')}`);
+    }
+  }
+
+  if (config.priority !== undefined) {
+    resolveLabelGroup<BeadsPriority>(config.priority, scheme.priority, scheme, source, 'priority');
+  }
+  if (config.type !== undefined) {
+    resolveLabelGroup<BeadsIssueType>(config.type, scheme.type, scheme, source, 'type');
+  }
+
+  for (const [key, field] of Object.entries(SINGLE_LABEL_KEYS)) {
+    if (config[key] === undefined) {
+      continue;
+    }
+    const label = resolveLabel(config[key], scheme[field]!, scheme, source, key);
+    if (field === 'syncMarker') {
+      if (!label) {
+        throw invalid(source, key, 'the sync marker cannot be disabled, use add-sync-marker: false');
+      }
+      scheme.syncMarker = label;
+    } else {
+      scheme[field] = label;
+    }
+  }
+
+  if (config.labels !== undefined) {
+    if (!isObject(config.labels)) {
+      throw invalid(source, 'labels', 'expected an object mapping beads labels to GitHub labels');
+    }
+    for (const [beadsLabel, name] of Object.entries(config.labels)) {
+      if (typeof name !== 'string' || !name.trim()) {
+        throw invalid(source, `labels.${beadsLabel}`, 'GitHub label name must be a non-empty string');
+      }
+      scheme.customLabels[beadsLabel] = name;
+    }
+  }
+
+  checkDuplicateNames(scheme, source);
+  return scheme;
+}
+
+/**
+ * Load the label scheme from the `label-config` file
+ * Returns the built-in labels when no file is configured.
+ */
+export function loadLabelScheme(file: string, prefix: string = ''): LabelScheme {
+  if (!file) {
+    return getDefaultLabelScheme(prefix);
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read label config ${file}: ${(error as Error).message}`);
+  }
+  return parseLabelConfig(content, prefix, file);
+}
@@ -3,18 +3,80 @@ import {
   BeadsPriority,
   BeadsIssueType,
   LabelConfig,
+  LabelScheme,
+  MappingFile,
   PRIORITY_LABELS,
   TYPE_LABELS,
   SYNC_MARKER_LABEL,
   BLOCKED_LABEL,
   IN_PROGRESS_LABEL,
   BEADS_ID_LABEL_PREFIX,
+  BEADS_ID_PATTERN,
 } from './types';
 
+const BEADS_ID_REGEXP = new RegExp(`^${BEADS_ID_PATTERN}$`);
+
 export interface LabelOptions {
   addSyncMarker: boolean;
   labelPrefix?: string;
+  /** Generated labels, defaulting to the built-in labels with the prefix */
+  labelScheme?: LabelScheme;
   setIdAsLabel: boolean;
+  /** Set to false when the type is synced as native issue type */
+  addTypeLabel?: boolean;
+}
+
+/**
+ * Get the built-in label scheme, with the label prefix applied
+ */
+export function getDefaultLabelScheme(prefix: string = ''): LabelScheme {
+  const withPrefix = (label: LabelConfig): LabelConfig => ({
+    ...label,
+    name: `${prefix}${label.name}`,
+  });
+
+  const priority: LabelScheme['priority'] = {};
+  for (const [key, label] of Object.entries(PRIORITY_LABELS)) {
+    priority[Number(key) as BeadsPriority] = withPrefix(label);
+  }
+  const type: LabelScheme['type'] = {};
+  for (const [key, label] of Object.entries(TYPE_LABELS)) {
+    type[key as BeadsIssueType] = withPrefix(label);
+  }
+
+  return {
+    priority,
+    type,
+    syncMarker: withPrefix(SYNC_MARKER_LABEL),
+    blocked: withPrefix(BLOCKED_LABEL),
+    inProgress: withPrefix(IN_PROGRESS_LABEL),
+    customLabels: {},
+    existing: [],
+  };
+}
+
+/**
+ * Get the name of the label marking synced issues
+ */
+export function getSyncMarkerLabel(prefix: string = '', scheme?: LabelScheme): string {
+  return (scheme ?? getDefaultLabelScheme(prefix)).syncMarker.name;
+}
+
+/**
+ * Get the GitHub name of a beads custom label
+ */
+export function toGitHubLabel(beadsLabel: string, scheme?: LabelScheme): string {
+  return scheme?.customLabels[beadsLabel] ?? beadsLabel;
+}
+
+/**
+ * Get the beads name of a GitHub label copied from a beads custom label
+ */
+export function toBeadsLabel(githubLabel: string, scheme?: LabelScheme): string {
+  const entry = Object.entries(scheme?.customLabels ?? {}).find(
+    ([, name]) => name === githubLabel
+  );
+  return entry ? entry[0] : githubLabel;
 }
 
 /**
@@ -26,10 +88,11 @@ export function getLabelsForIssue(
 ): string[] {
   const labels: string[] = [];
   const prefix = options.labelPrefix || '';
+  const scheme = options.labelScheme ?? getDefaultLabelScheme(prefix);
 
   // Sync marker
   if (options.addSyncMarker) {
-    labels.push(`${prefix}${SYNC_MARKER_LABEL.name}`);
+    labels.push(scheme.syncMarker.name);
   }
 
   // Beads ID label - always add to track the mapping
@@ -39,30 +102,30 @@ export function getLabelsForIssue(
 
   // Priority label
   if (issue.priority !== undefined) {
-    const priorityLabel = PRIORITY_LABELS[issue.priority as BeadsPriority];
+    const priorityLabel = scheme.priority[issue.priority as BeadsPriority];
     if (priorityLabel) {
-      labels.push(`${prefix}${priorityLabel.name}`);
+      labels.push(priorityLabel.name);
     }
   }
 
   // Type label
-  if (issue.issue_type) {
-    const typeLabel = TYPE_LABELS[issue.issue_type as BeadsIssueType];
+  if (issue.issue_type && options.addTypeLabel !== false) {
+    const typeLabel = scheme.type[issue.issue_type as BeadsIssueType];
     if (typeLabel) {
-      labels.push(`${prefix}${typeLabel.name}`);
+      labels.push(typeLabel.name);
     }
   }
 
   // Status labels
-  if (issue.status === 'blocked') {
-    labels.push(`${prefix}${BLOCKED_LABEL.name}`);
-  } else if (issue.status === 'in_progress') {
-    labels.push(`${prefix}${IN_PROGRESS_LABEL.name}`);
+  if (issue.status === 'blocked' && scheme.blocked) {
+    labels.push(scheme.blocked.name);
+  } else if (issue.status === 'in_progress' && scheme.inProgress) {
+    labels.push(scheme.inProgress.name);
   }
 
   // Custom labels from beads
   if (issue.labels) {
-    labels.push(...issue.labels);
+    labels.push(...issue.labels.map((label) => toGitHubLabel(label, scheme)));
   }
 
   // Epic labels for parent-child dependencies
@@ -78,42 +141,44 @@ export function getLabelsForIssue(
 }
 
 /**
- * Get all predefined labels that should be created in the repository
+ * List the enabled labels of a label scheme
  */
-export function getAllRequiredLabels(prefix: string = ''): LabelConfig[] {
-  const labels: LabelConfig[] = [];
+function listSchemeLabels(scheme: LabelScheme): LabelConfig[] {
+  return [
+    ...Object.values(scheme.priority),
+    ...Object.values(scheme.type),
+    scheme.syncMarker,
+    ...(scheme.blocked ? [scheme.blocked] : []),
+    ...(scheme.inProgress ? [scheme.inProgress] : []),
+  ];
+}
 
-  // Priority labels
-  for (const priority of Object.values(PRIORITY_LABELS)) {
-    labels.push({
-      ...priority,
-      name: `${prefix}${priority.name}`,
-    });
-  }
+/**
+ * Get all predefined labels that should be created in the repository
+ * Existing repository labels the scheme maps to are left out.
+ */
+export function getAllRequiredLabels(prefix: string = '', scheme?: LabelScheme): LabelConfig[] {
+  const resolved = scheme ?? getDefaultLabelScheme(prefix);
+  return listSchemeLabels(resolved).filter((label) => !resolved.existing.includes(label.name));
+}
 
-  // Type labels
-  for (const type of Object.values(TYPE_LABELS)) {
-    labels.push({
-      ...type,
-      name: `${prefix}${type.name}`,
-    });
+/**
+ * Check whether a label is generated by the syncer rather than copied from
+ * the beads issue labels
+ */
+export function isSyncerLabel(
+  labelName: string,
+  prefix: string = '',
+  scheme?: LabelScheme
+): boolean {
+  const resolved = scheme ?? getDefaultLabelScheme(prefix);
+  if (listSchemeLabels(resolved).some((label) => label.name === labelName)) {
+    return true;
   }
-
-  // Special labels
-  labels.push({
-    ...SYNC_MARKER_LABEL,
-    name: `${prefix}${SYNC_MARKER_LABEL.name}`,
-  });
-  labels.push({
-    ...BLOCKED_LABEL,
-    name: `${prefix}${BLOCKED_LABEL.name}`,
-  });
-  labels.push({
-    ...IN_PROGRESS_LABEL,
-    name: `${prefix}${IN_PROGRESS_LABEL.name}`,
-  });
-
-  return labels;
+  return (
+    parseEpicIdFromLabel(labelName, prefix) !== null ||
+    parseBeadsIdFromLabel(labelName, prefix) !== null
+  );
 }
 
 /**
@@ -123,6 +188,19 @@ export function getEpicLabel(parentBeadsId: string, prefix: string = ''): string
   return `${prefix}epic:${parentBeadsId}`;
 }
 
+/**
+ * Extract the parent beads ID from an epic label name
+ * Returns null for other labels, including hand-made ones like `epic:auth`.
+ */
+function parseEpicIdFromLabel(labelName: string, prefix: string = ''): string | null {
+  const epicPrefix = getEpicLabel('', prefix);
+  if (!labelName.startsWith(epicPrefix)) {
+    return null;
+  }
+  const beadsId = labelName.slice(epicPrefix.length);
+  return BEADS_ID_REGEXP.test(beadsId) ? beadsId : null;
+}
+
 /**
  * Create epic label config for a specific parent
  */
@@ -153,10 +231,11 @@ export function parseBeadsIdFromLabel(
   prefix: string = ''
 ): string | null {
   const fullPrefix = `${prefix}${BEADS_ID_LABEL_PREFIX}`;
-  if (labelName.startsWith(fullPrefix)) {
-    return labelName.slice(fullPrefix.length);
+  if (!labelName.startsWith(fullPrefix)) {
+    return null;
   }
-  return null;
+  const beadsId = labelName.slice(fullPrefix.length);
+  return BEADS_ID_REGEXP.test(beadsId) ? beadsId : null;
 }
 
 /**
@@ -175,3 +254,87 @@ export function extractBeadsIdFromLabels(
   }
   return null;
 }
+
+/**
+ * Reconcile the labels of a GitHub issue with the labels the sync wants on it
+ *
+ * Labels owned by the syncer (generated labels and the labels it applied on
+ * the previous sync) are added and removed to match `desired`. Every other
+ * label on the issue, such as triage labels added on GitHub, is kept.
+ * Without a record of the previous sync, such as for issues synced by an
+ * older version, the custom labels of the scheme are owned too.
+ */
+export function reconcileLabels(
+  current: string[],
+  desired: string[],
+  previous?: string[],
+  prefix: string = '',
+  scheme?: LabelScheme
+): string[] {
+  const owned = previous ?? Object.values(scheme?.customLabels ?? {});
+  const isOwned = (label: string) =>
+    owned.includes(label) || isSyncerLabel(label, prefix, scheme);
+  const kept = current.filter((label) => !isOwned(label) && !desired.includes(label));
+  return [...kept, ...desired];
+}
+
+/**
+ * Find the epic and beads ID labels no longer used by any issue
+ *
+ * An epic label is used while a beads issue is a child of the epic, and a
+ * beads ID label while the beads issue exists or is mapped to a GitHub issue.
+ */
+export function findOrphanedLabels(
+  labelNames: string[],
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  prefix: string = ''
+): string[] {
+  const used = new Set<string>();
+  for (const issue of issues) {
+    used.add(getBeadsIdLabel(issue.id, prefix));
+    for (const dep of issue.dependencies ?? []) {
+      if (dep.type === 'parent-child') {
+        used.add(getEpicLabel(dep.id, prefix));
+      }
+    }
+  }
+  for (const beadsId of Object.keys(mapping.mappings)) {
+    used.add(getBeadsIdLabel(beadsId, prefix));
+  }
+
+  return labelNames.filter(
+    (name) =>
+      !used.has(name) &&
+      (parseEpicIdFromLabel(name, prefix) !== null || parseBeadsIdFromLabel(name, prefix) !== null)
+  );
+}
+
+/**
+ * Compare the repository labels with the required ones
+ * Label names are compared case-insensitively, like GitHub does. Drifted
+ * labels keep the name they have in the repository.
+ */
+export function diffLabels(
+  existing: LabelConfig[],
+  required: LabelConfig[]
+): { missing: LabelConfig[]; drifted: LabelConfig[] } {
+  const byName = new Map(existing.map((label) => [label.name.toLowerCase(), label]));
+  const missing: LabelConfig[] = [];
+  const drifted: LabelConfig[] = [];
+
+  for (const label of required) {
+    const current = byName.get(label.name.toLowerCase());
+    if (!current) {
+      missing.push(label);
+      byName.set(label.name.toLowerCase(), label);
+    } else if (
+      current.color.toLowerCase() !== label.color.toLowerCase() ||
+      current.description !== label.description
+    ) {
+      drifted.push({ ...label, name: current.name });
+    }
+  }
+
+  return { missing, drifted };
+}
@@ -1,13 +1,25 @@
-import { MappingFile, IssueMapping } from './types';
+import { BEADS_ID_PATTERN, MappingBase, MappingFile, IssueMapping } from './types';
 import { GitHubIssue } from './github';
 import { extractBeadsIdFromLabels } from './labels';
+import { extractSyncStateFromBody } from './state';
+import { extractBeadsIdFromBody } from './template';
+
+/**
+ * Current version of the mapping file format
+ */
+export const MAPPING_VERSION = 1;
+
+/**
+ * Migrations upgrading a mapping file, keyed by the version they upgrade from
+ */
+const MAPPING_MIGRATIONS: Record<number, (mappingFile: MappingFile) => MappingFile> = {};
 
 /**
  * Create a new empty mapping file structure
  */
 export function createEmptyMapping(): MappingFile {
   return {
-    version: 1,
+    version: MAPPING_VERSION,
     mappings: {},
     sync_metadata: {
       last_full_sync: new Date().toISOString(),
@@ -15,7 +27,8 @@ export function createEmptyMapping(): MappingFile {
   };
 }
 
-const ID_REGEXP = /^\[([\w-]+)\].*/;
+const ID_REGEXP = new RegExp(`^\\[(${BEADS_ID_PATTERN})\\]`);
+const TITLE_PREFIX_REGEXP = new RegExp(`^\\[${BEADS_ID_PATTERN}\\] ?`);
 
 /**
  * Extract the beads ID assuming issue title format '[<beads id>] <issue title>'
@@ -28,29 +41,131 @@ function extractBeadsIdFromTitle(title: string): string | undefined {
 }
 
 /**
- * Build a mapping from GitHub issues by extracting beads IDs from labels
+ * Remove the '[<beads id>] ' prefix from an issue title
+ */
+export function stripBeadsIdFromTitle(title: string): string {
+  return title.replace(TITLE_PREFIX_REGEXP, '');
+}
+
+/**
+ * Order in which the beads ID sources are tried for each mapping base
+ * The configured base comes first and the others are fallbacks, so issues
+ * synced with another mapping base are still found while migrating.
+ */
+const MAPPING_BASE_ORDER: Record<MappingBase, MappingBase[]> = {
+  title: ['title', 'label', 'body'],
+  label: ['label', 'title', 'body'],
+  body: ['body', 'label', 'title'],
+};
+
+/**
+ * Extract the beads ID found in each source of a GitHub issue
+ */
+export function extractBeadsIdsBySource(
+  issue: GitHubIssue,
+  labelPrefix: string = ''
+): Partial<Record<MappingBase, string>> {
+  const ids: Partial<Record<MappingBase, string>> = {
+    title: extractBeadsIdFromTitle(issue.title),
+    label: extractBeadsIdFromLabels(issue.labels, labelPrefix) ?? undefined,
+    body: extractBeadsIdFromBody(issue.body ?? '') ?? undefined,
+  };
+  for (const base of Object.keys(ids) as MappingBase[]) {
+    if (!ids[base]) {
+      delete ids[base];
+    }
+  }
+  return ids;
+}
+
+/**
+ * Extract the beads ID of a GitHub issue from the sources of the mapping base
+ */
+export function extractBeadsId(
+  issue: GitHubIssue,
+  labelPrefix: string = '',
+  mappingBase: MappingBase = 'title'
+): string | undefined {
+  const ids = extractBeadsIdsBySource(issue, labelPrefix);
+  const base = MAPPING_BASE_ORDER[mappingBase].find((source) => ids[source]);
+  return base ? ids[base] : undefined;
+}
+
+/**
+ * Pick the canonical GitHub issue among issues claiming the same beads ID
+ *
+ * The issue adopted through the beads `external_ref` wins, then open issues
+ * win over closed ones, then the oldest issue (lowest number) wins. The
+ * other issues are returned as its duplicates.
+ */
+export function pickCanonicalIssue(
+  candidates: IssueMapping[],
+  adoptedIssueNumber?: number
+): IssueMapping {
+  const rank = (candidate: IssueMapping): number[] => [
+    candidate.github_issue_number === adoptedIssueNumber ? 0 : 1,
+    candidate.github_state === 'closed' ? 1 : 0,
+    candidate.github_issue_number,
+  ];
+  // Duplicates of the candidates are not nested in the result
+  const sorted = candidates
+    .map((candidate): IssueMapping => ({ ...candidate, duplicates: undefined }))
+    .sort((a, b) => {
+      const [rankA, rankB] = [rank(a), rank(b)];
+      const index = rankA.findIndex((value, i) => value !== rankB[i]);
+      return index === -1 ? 0 : rankA[index] - rankB[index];
+    });
+
+  const [canonical, ...duplicates] = sorted;
+  return duplicates.length > 0 ? { ...canonical, duplicates } : canonical;
+}
+
+/**
+ * Get the GitHub issues of a mapping entry, its duplicates included
+ */
+function listClaimants(issueMapping: IssueMapping): IssueMapping[] {
+  return [issueMapping, ...(issueMapping.duplicates ?? [])];
+}
+
+/**
+ * Build a mapping from GitHub issues by extracting beads IDs from titles,
+ * labels or bodies and restoring the sync state embedded in each issue body
  * This replaces the need for a persistent mapping file
  */
 export function buildMappingFromGitHubIssues(
   issues: GitHubIssue[],
   labelPrefix: string = '',
-  mappingBase: 'label' | 'title' = 'title'
+  mappingBase: MappingBase = 'title'
 ): MappingFile {
   const mapping = createEmptyMapping();
 
   for (const issue of issues) {
-    const beadsId = mappingBase === 'label' ? extractBeadsIdFromLabels(issue.labels, labelPrefix) : extractBeadsIdFromTitle(issue.title);
+    const beadsId = extractBeadsId(issue, labelPrefix, mappingBase);
     if (beadsId) {
-      mapping.mappings[beadsId] = {
+      // Restore the state embedded in the body by a previous sync
+      const state = extractSyncStateFromBody(issue.body);
+      const issueMapping: IssueMapping = {
         github_issue_number: issue.number,
         github_issue_id: issue.id,
         last_sync_at: new Date().toISOString(),
-        // We don't know when it was last updated, so use epoch
+        // Without a state block we don't know when it was last updated, so use epoch
         // This will cause an update on first sync which is fine
-        beads_updated_at: '1970-01-01T00:00:00Z',
+        beads_updated_at: state?.beads_updated_at ?? '1970-01-01T00:00:00Z',
+        content_hash: state?.content_hash,
+        github_state: issue.state,
+        parent_issue_number: state?.parent_issue_number,
+        project_item: state?.project_item,
+        synced_labels: state?.synced_labels,
+        cross_links: state?.cross_links,
         adopted_from_external_ref: false,
-        comments: {},
+        comments: state?.comments ?? {},
       };
+
+      // Several issues claiming the same beads ID are kept as duplicates
+      const existing = mapping.mappings[beadsId];
+      mapping.mappings[beadsId] = existing
+        ? pickCanonicalIssue([...listClaimants(existing), issueMapping])
+        : issueMapping;
     }
   }
 
@@ -107,13 +222,31 @@ export function setCommentMapping(
   mappingFile: MappingFile,
   beadsIssueId: string,
   commentId: string,
-  githubCommentId: number
+  githubCommentId: number,
+  bodyHash?: string
 ): void {
   const issueMapping = mappingFile.mappings[beadsIssueId];
   if (!issueMapping) {
     return;
   }
-  issueMapping.comments[commentId] = { github_comment_id: githubCommentId };
+  issueMapping.comments[commentId] = {
+    github_comment_id: githubCommentId,
+    body_hash: bodyHash,
+  };
+}
+
+/**
+ * Remove the mapping of a beads comment
+ */
+export function removeCommentMapping(
+  mappingFile: MappingFile,
+  beadsIssueId: string,
+  commentId: string
+): void {
+  const issueMapping = mappingFile.mappings[beadsIssueId];
+  if (issueMapping) {
+    delete issueMapping.comments[commentId];
+  }
 }
 
 /**
@@ -131,7 +264,107 @@ export function deserializeMapping(content: string): MappingFile {
   if (!content.trim()) {
     return createEmptyMapping();
   }
-  return JSON.parse(content) as MappingFile;
+  return migrateMapping(JSON.parse(content) as MappingFile);
+}
+
+/**
+ * Upgrade a mapping file to the current version and fill in missing fields
+ * Throws if the file was written by a newer version of the syncer
+ */
+export function migrateMapping(mappingFile: MappingFile): MappingFile {
+  let migrated: MappingFile = {
+    ...mappingFile,
+    version: mappingFile.version ?? MAPPING_VERSION,
+  };
+
+  if (migrated.version > MAPPING_VERSION) {
+    throw new Error(
+      `Mapping file version ${migrated.version} is newer than the supported ` +
+        `version ${MAPPING_VERSION}`
+    );
+  }
+
+  while (migrated.version < MAPPING_VERSION) {
+    const migrate = MAPPING_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from mapping file version ${migrated.version}`);
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+
+  const mappings: Record<string, IssueMapping> = {};
+  for (const [beadsId, issueMapping] of Object.entries(migrated.mappings ?? {})) {
+    mappings[beadsId] = { ...issueMapping, comments: issueMapping.comments ?? {} };
+  }
+
+  return {
+    ...migrated,
+    mappings,
+    sync_metadata: migrated.sync_metadata ?? {
+      last_full_sync: '1970-01-01T00:00:00Z',
+    },
+  };
+}
+
+/**
+ * Reconcile a stored mapping with a mapping built from GitHub issues
+ * Scanned entries reflect the current GitHub state and take precedence;
+ * stored entries for issues that were not scanned are kept as is
+ */
+export function reconcileMapping(
+  stored: MappingFile,
+  scanned: MappingFile
+): MappingFile {
+  const reconciled: MappingFile = {
+    ...stored,
+    mappings: { ...stored.mappings },
+  };
+
+  for (const [beadsId, scannedMapping] of Object.entries(scanned.mappings)) {
+    const storedMapping = reconciled.mappings[beadsId];
+    if (!storedMapping) {
+      reconciled.mappings[beadsId] = scannedMapping;
+      continue;
+    }
+
+    // An updated issue claiming the beads ID of another issue is a duplicate
+    if (scannedMapping.github_issue_number !== storedMapping.github_issue_number) {
+      const scannedClaimants = listClaimants(scannedMapping);
+      const storedClaimants = listClaimants(storedMapping).filter(
+        (claimant) =>
+          !scannedClaimants.some(
+            (scanned) => scanned.github_issue_number === claimant.github_issue_number
+          )
+      );
+      reconciled.mappings[beadsId] = pickCanonicalIssue([...storedClaimants, ...scannedClaimants]);
+      continue;
+    }
+
+    // Only trust the scanned timestamps when the body carried a sync state
+    const hasState = scannedMapping.content_hash !== undefined;
+    reconciled.mappings[beadsId] = {
+      ...storedMapping,
+      github_issue_number: scannedMapping.github_issue_number,
+      github_issue_id: scannedMapping.github_issue_id,
+      github_state: scannedMapping.github_state,
+      beads_updated_at: hasState
+        ? scannedMapping.beads_updated_at
+        : storedMapping.beads_updated_at,
+      content_hash: hasState
+        ? scannedMapping.content_hash
+        : storedMapping.content_hash,
+      parent_issue_number: hasState
+        ? scannedMapping.parent_issue_number
+        : storedMapping.parent_issue_number,
+      project_item: hasState ? scannedMapping.project_item : storedMapping.project_item,
+      synced_labels: hasState ? scannedMapping.synced_labels : storedMapping.synced_labels,
+      cross_links: hasState ? scannedMapping.cross_links : storedMapping.cross_links,
+      comments: { ...storedMapping.comments, ...scannedMapping.comments },
+      duplicates: scannedMapping.duplicates,
+    };
+  }
+
+  return reconciled;
 }
 
 /**
@@ -143,9 +376,14 @@ export function getMappedBeadsIds(mappingFile: MappingFile): string[] {
 
 /**
  * Update the last sync timestamp
+ * Pass the start time of the run, so issues edited during the run are scanned
+ * again by the next one.
  */
-export function updateLastSyncTime(mappingFile: MappingFile): void {
-  mappingFile.sync_metadata.last_full_sync = new Date().toISOString();
+export function updateLastSyncTime(
+  mappingFile: MappingFile,
+  syncedAt: string = new Date().toISOString()
+): void {
+  mappingFile.sync_metadata.last_full_sync = syncedAt;
 }
 
 /**
@@ -155,13 +393,15 @@ export function createIssueMapping(
   githubIssueNumber: number,
   githubIssueId: number,
   beadsUpdatedAt: string,
-  adoptedFromExternalRef: boolean = false
+  adoptedFromExternalRef: boolean = false,
+  contentHash?: string
 ): IssueMapping {
   return {
     github_issue_number: githubIssueNumber,
     github_issue_id: githubIssueId,
     last_sync_at: new Date().toISOString(),
     beads_updated_at: beadsUpdatedAt,
+    content_hash: contentHash,
     adopted_from_external_ref: adoptedFromExternalRef,
     comments: {},
   };
@@ -0,0 +1,144 @@
+import * as core from '@actions/core';
+import { MappingBase, SyncConfig } from './types';
+import { GitHubClient, GitHubIssue, UpdateIssueParams } from './github';
+import { extractBeadsIdsBySource, stripBeadsIdFromTitle } from './mapper';
+import { getBeadsIdLabel, getSyncMarkerLabel, parseBeadsIdFromLabel } from './labels';
+
+/**
+ * GitHub issues left untouched by the migration, because their beads ID is
+ * unknown, conflicting or claimed by several issues
+ */
+export interface MigrationConflict {
+  issueNumbers: number[];
+  beadsIds: string[];
+  reason: string;
+}
+
+/**
+ * Result of a migration between mapping bases
+ */
+export interface MigrationResult {
+  /** Issues rewritten to the new mapping base, or that would be in dry-run mode */
+  migrated: number;
+  unchanged: number;
+  conflicts: MigrationConflict[];
+}
+
+/**
+ * Compute the title, labels and body of an issue under a mapping base
+ * Returns only the fields to change, or null if the issue already follows it.
+ */
+export function planIssueMigration(
+  issue: GitHubIssue,
+  beadsId: string,
+  mappingBase: MappingBase,
+  labelPrefix: string = ''
+): Omit<UpdateIssueParams, 'issueNumber'> | null {
+  const changes: Omit<UpdateIssueParams, 'issueNumber'> = {};
+
+  const plainTitle = stripBeadsIdFromTitle(issue.title);
+  const title = mappingBase === 'title' ? `[${beadsId}] ${plainTitle}` : plainTitle;
+  if (title !== issue.title) {
+    changes.title = title;
+  }
+
+  const labels = issue.labels.filter((label) => parseBeadsIdFromLabel(label, labelPrefix) === null);
+  if (mappingBase === 'label') {
+    labels.push(getBeadsIdLabel(beadsId, labelPrefix));
+  }
+  if (labels.length !== issue.labels.length || labels.some((label) => !issue.labels.includes(label))) {
+    changes.labels = labels;
+  }
+
+  // Synced bodies start with the marker, unless it was edited away on GitHub
+  const marker = `<!-- beads-sync:${beadsId} -->`;
+  if (mappingBase === 'body' && !issue.body?.includes(marker)) {
+    changes.body = issue.body ? `${marker}\n\n${issue.body}` : marker;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Migrate the synced GitHub issues to the configured mapping base
+ *
+ * Each issue is identified by any of its title, label or body marker, then
+ * its title and labels are rewritten to the new scheme. Issues whose sources
+ * disagree, that carry no beads ID or that claim the same beads ID as another
+ * issue are reported as conflicts and left untouched rather than guessed.
+ */
+export async function migrateMappingBase(
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<MigrationResult> {
+  const result: MigrationResult = { migrated: 0, unchanged: 0, conflicts: [] };
+  const issues = await client.listIssuesByLabel(
+    getSyncMarkerLabel(config.labelPrefix, config.labelScheme)
+  );
+  core.info(`Migrating ${issues.length} synced issues to mapping base: ${config.mappingBase}`);
+
+  const claims = new Map<string, GitHubIssue[]>();
+  for (const issue of issues) {
+    const ids = extractBeadsIdsBySource(issue, config.labelPrefix);
+    const beadsIds = [...new Set(Object.values(ids))];
+
+    if (beadsIds.length === 0) {
+      result.conflicts.push({
+        issueNumbers: [issue.number],
+        beadsIds: [],
+        reason: 'no beads ID in title, labels or body',
+      });
+    } else if (beadsIds.length > 1) {
+      result.conflicts.push({
+        issueNumbers: [issue.number],
+        beadsIds,
+        reason: Object.entries(ids)
+          .map(([source, beadsId]) => `${source} says ${beadsId}`)
+          .join(', '),
+      });
+    } else {
+      claims.set(beadsIds[0], [...(claims.get(beadsIds[0]) ?? []), issue]);
+    }
+  }
+
+  for (const [beadsId, claimants] of claims) {
+    if (claimants.length > 1) {
+      result.conflicts.push({
+        issueNumbers: claimants.map((issue) => issue.number),
+        beadsIds: [beadsId],
+        reason: `${claimants.length} issues claim ${beadsId}`,
+      });
+      continue;
+    }
+
+    const [issue] = claimants;
+    const changes = planIssueMigration(issue, beadsId, config.mappingBase, config.labelPrefix);
+    if (!changes) {
+      result.unchanged++;
+      continue;
+    }
+
+    const fields = Object.keys(changes).join(', ');
+    if (config.dryRun) {
+      core.info(`[DRY RUN] Would migrate #${issue.number} (${beadsId}): ${fields}`);
+      result.migrated++;
+      continue;
+    }
+
+    try {
+      await client.updateIssue({ issueNumber: issue.number, ...changes });
+      core.info(`Migrated #${issue.number} (${beadsId}): ${fields}`);
+      result.migrated++;
+    } catch (error) {
+      core.warning(`Failed to migrate #${issue.number} (${beadsId}): ${error}`);
+    }
+  }
+
+  for (const conflict of result.conflicts) {
+    core.warning(
+      `Not migrated: ${conflict.issueNumbers.map((number) => `#${number}`).join(', ')}: ${conflict.reason}`
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,247 @@
+import {
+  DiffResult,
+  PlanIssueSnapshot,
+  PlannedCommentChange,
+  PlannedIssueChange,
+  RenderedIssue,
+  SyncPlan,
+} from './types';
+import { GitHubIssue } from './github';
+
+/**
+ * Largest number of line pairs compared to find the smallest diff
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compute a line diff between two texts
+ * Only changed lines are listed, prefixed with `-` or `+`
+ * Bodies too large to compare line by line list all their changed lines as
+ * removed then added, past the lines they start and end with in common.
+ */
+export function diffLines(before: string, after: string): string {
+  let a = before ? before.split('\n') : [];
+  let b = after ? after.split('\n') : [];
+
+  // Only the lines between the common start and end can differ
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+  a = a.slice(start, a.length - end);
+  b = b.slice(start, b.length - end);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((line) => `-${line}`), ...b.map((line) => `+${line}`)].join('\n');
+  }
+
+  // Longest common subsequence lengths of the line suffixes
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Snapshot the planned fields of a GitHub issue
+ */
+function toSnapshot(issue: GitHubIssue): PlanIssueSnapshot {
+  return {
+    title: issue.title,
+    state: issue.state,
+    labels: issue.labels,
+    assignees: issue.assignees ?? [],
+  };
+}
+
+/**
+ * Plan the change of a GitHub issue from its current content (null when the
+ * issue does not exist yet) to the target content
+ */
+export function planIssueChange(
+  change: Pick<PlannedIssueChange, 'type' | 'beads_id' | 'github_issue_number' | 'reason'>,
+  current: GitHubIssue | null,
+  target: RenderedIssue & { state: 'open' | 'closed' }
+): PlannedIssueChange {
+  return {
+    ...change,
+    before: current ? toSnapshot(current) : null,
+    after: {
+      title: target.title,
+      state: target.state,
+      labels: target.labels,
+      assignees: target.assignees,
+    },
+    body_diff: diffLines(current?.body ?? '', target.body),
+  };
+}
+
+/**
+ * Plan the comment changes of a diff
+ */
+export function planCommentChanges(diff: DiffResult): PlannedCommentChange[] {
+  return [
+    ...diff.commentActions.map((action) => ({
+      type: 'create' as const,
+      beads_id: action.beadsIssueId,
+      github_issue_number: action.githubIssueNumber,
+      comment_id: action.comment.id,
+    })),
+    ...diff.commentUpdateActions.map((action) => ({
+      type: 'update' as const,
+      beads_id: action.beadsIssueId,
+      github_issue_number: action.githubIssueNumber,
+      comment_id: action.comment.id,
+      github_comment_id: action.githubCommentId,
+    })),
+    ...diff.commentDeleteActions.map((action) => ({
+      type: 'delete' as const,
+      beads_id: action.beadsIssueId,
+      github_issue_number: action.githubIssueNumber,
+      comment_id: action.commentId,
+      github_comment_id: action.githubCommentId,
+    })),
+  ];
+}
+
+/**
+ * Render a list of names for Markdown, or a dash when empty
+ */
+function formatList(values: string[]): string {
+  return values.length > 0 ? values.map((v) => `\`${v}\``).join(', ') : '—';
+}
+
+/**
+ * Render the field changes of a planned issue change as Markdown list items
+ */
+function renderFieldChanges(change: PlannedIssueChange): string[] {
+  const { before, after } = change;
+  const lines: string[] = [];
+
+  if (before?.title !== after.title) {
+    lines.push(`- **Title:** ${before ? `\`${before.title}\` → ` : ''}\`${after.title}\``);
+  }
+  if (before?.state !== after.state) {
+    lines.push(`- **State:** ${before ? `${before.state} → ` : ''}${after.state}`);
+  }
+
+  const beforeLabels = before?.labels ?? [];
+  const addedLabels = after.labels.filter((l) => !beforeLabels.includes(l));
+  const removedLabels = beforeLabels.filter((l) => !after.labels.includes(l));
+  if (addedLabels.length > 0) {
+    lines.push(`- **Labels added:** ${formatList(addedLabels)}`);
+  }
+  if (removedLabels.length > 0) {
+    lines.push(`- **Labels removed:** ${formatList(removedLabels)}`);
+  }
+
+  const beforeAssignees = before?.assignees ?? [];
+  if (beforeAssignees.join(',') !== after.assignees.join(',')) {
+    lines.push(`- **Assignees:** ${formatList(beforeAssignees)} → ${formatList(after.assignees)}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Get a code fence longer than any run of backticks in a text, so the text
+ * can't close it early
+ */
+function getCodeFence(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Render a sync plan as Markdown
+ */
+export function renderPlanMarkdown(plan: SyncPlan): string {
+  const lines: string[] = [`## Planned sync changes for ${plan.repository}`, ''];
+
+  const titleMatches = plan.title_matches ?? [];
+  if (plan.issues.length === 0 && plan.comments.length === 0 && titleMatches.length === 0) {
+    lines.push('No changes.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  if (plan.issues.length > 0) {
+    lines.push('| Action | Beads issue | GitHub issue | Reason |');
+    lines.push('|--------|-------------|--------------|--------|');
+    for (const change of plan.issues) {
+      const githubIssue = change.github_issue_number ? `#${change.github_issue_number}` : 'new';
+      lines.push(`| ${change.type} | ${change.beads_id} | ${githubIssue} | ${change.reason} |`);
+    }
+    lines.push('');
+
+    for (const change of plan.issues) {
+      const githubIssue = change.github_issue_number ? ` (#${change.github_issue_number})` : '';
+      lines.push('<details>');
+      lines.push(`<summary>${change.type} ${change.beads_id}${githubIssue}</summary>`);
+      lines.push('');
+      lines.push(...renderFieldChanges(change));
+      if (change.body_diff) {
+        const fence = getCodeFence(change.body_diff);
+        lines.push('');
+        lines.push(`${fence}diff`);
+        lines.push(change.body_diff);
+        lines.push(fence);
+      }
+      lines.push('');
+      lines.push('</details>');
+      lines.push('');
+    }
+  }
+
+  if (plan.comments.length > 0) {
+    const count = (type: PlannedCommentChange['type']) =>
+      plan.comments.filter((c) => c.type === type).length;
+    lines.push(
+      `**Comments:** ${count('create')} to create, ${count('update')} to update, ` +
+        `${count('delete')} to delete`
+    );
+    lines.push('');
+  }
+
+  if (titleMatches.length > 0) {
+    lines.push('### Possible title matches (not adopted)');
+    lines.push('');
+    lines.push('| Beads issue | GitHub issue | GitHub title | Score |');
+    lines.push('|-------------|--------------|--------------|-------|');
+    for (const match of titleMatches) {
+      lines.push(
+        `| ${match.beads_id} | #${match.github_issue_number} | ${match.github_title} | ${match.score} |`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import * as core from '@actions/core';
+import { PlannedIssueChange, SyncPlan } from './types';
+import { GitHubClient } from './github';
+import { renderPlanMarkdown } from './plan';
+
+/**
+ * Hidden marker identifying the preview comment of a pull request
+ */
+export const PREVIEW_COMMENT_MARKER = '<!-- beads-sync-preview -->';
+
+/**
+ * GitHub rejects comments longer than 65,536 characters
+ */
+const MAX_COMMENT_LENGTH = 65_536;
+
+const PREVIEW_ACTION_LABELS: Array<[PlannedIssueChange['type'], string]> = [
+  ['create', 'created'],
+  ['update', 'updated'],
+  ['close', 'closed'],
+  ['close-deleted', 'closed (deleted from beads)'],
+  ['reopen', 'reopened'],
+  ['adopt', 'adopted'],
+];
+
+/**
+ * Render the pull request comment previewing a sync plan
+ * The details of a plan too large for a comment are replaced by a pointer to
+ * the plan file.
+ */
+export function renderPreviewComment(
+  plan: SyncPlan,
+  planFile: string = 'beads-sync-plan.json'
+): string {
+  const count = (type: PlannedIssueChange['type']) =>
+    plan.issues.filter((change) => change.type === type).length;
+
+  const lines = [PREVIEW_COMMENT_MARKER, '### Beads sync preview', ''];
+
+  const closing = count('close') + count('close-deleted');
+  if (closing > 0) {
+    lines.push(`> [!WARNING]`);
+    lines.push(`> Merging this pull request will close ${closing} GitHub issue(s).`);
+    lines.push('');
+  }
+
+  lines.push('| GitHub issues | Count |');
+  lines.push('|---------------|-------|');
+  for (const [type, label] of PREVIEW_ACTION_LABELS) {
+    lines.push(`| ${label} | ${count(type)} |`);
+  }
+  lines.push('');
+
+  const details = [
+    '<details>',
+    '<summary>Planned changes</summary>',
+    '',
+    renderPlanMarkdown(plan),
+    '</details>',
+  ];
+  const body = `${[...lines, ...details].join('\n')}\n`;
+  if (body.length <= MAX_COMMENT_LENGTH) {
+    return body;
+  }
+
+  lines.push(
+    `The planned changes are too large for a comment, see \`${planFile}\` in the workflow run.`
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Check whether a sync plan has nothing to show
+ */
+function isEmptyPlan(plan: SyncPlan): boolean {
+  return plan.issues.length === 0 && plan.comments.length === 0 && !plan.title_matches?.length;
+}
+
+/**
+ * Post the sync plan preview on a pull request, updating the previous
+ * preview comment in place if there is one
+ *
+ * Pull requests not changing anything get no comment, unless a previous
+ * preview has to be updated. Failing to comment, such as with the read-only
+ * token of a fork, only logs a warning since the preview is informational.
+ */
+export async function postPreviewComment(
+  client: GitHubClient,
+  pullRequestNumber: number,
+  plan: SyncPlan,
+  planFile?: string
+): Promise<void> {
+  const body = renderPreviewComment(plan, planFile);
+  try {
+    const comments = await client.listIssueComments(pullRequestNumber);
+    const existing = comments.find((comment) => comment.body.includes(PREVIEW_COMMENT_MARKER));
+
+    if (existing) {
+      await client.updateComment(existing.id, body);
+      core.info(`Updated sync preview comment on pull request #${pullRequestNumber}`);
+    } else if (isEmptyPlan(plan)) {
+      core.info(`No sync changes, not commenting on pull request #${pullRequestNumber}`);
+    } else {
+      await client.createComment(pullRequestNumber, body);
+      core.info(`Posted sync preview comment on pull request #${pullRequestNumber}`);
+    }
+  } catch (error) {
+    core.warning(`Failed to post the sync preview on pull request #${pullRequestNumber}: ${error}`);
+  }
+}
@@ -0,0 +1,214 @@
+import * as core from '@actions/core';
+import {
+  BeadsIssue,
+  MappingFile,
+  ProjectFieldKey,
+  SyncConfig,
+} from './types';
+import { GitHubClient, Project, ProjectFieldValue } from './github';
+import { getMapping } from './mapper';
+
+const PROJECT_URL_PATTERN = /^https:\/\/github\.com\/(orgs|users)\/([^/]+)\/projects\/(\d+)/;
+const ESTIMATE_PATTERN = /^(\d+(?:\.\d+)?)\s*([mhdw]?)$/i;
+
+/**
+ * Hours per estimate unit, using 8-hour days and 5-day weeks
+ */
+const ESTIMATE_UNIT_HOURS: Record<string, number> = {
+  m: 1 / 60,
+  h: 1,
+  d: 8,
+  w: 40,
+};
+
+/**
+ * Project option names matching beads values, compared case-insensitively
+ * and ignoring spaces and punctuation. The beads value itself always matches.
+ */
+const OPTION_ALIASES: Record<string, string[]> = {
+  '0': ['p0', 'critical'],
+  '1': ['p1', 'high'],
+  '2': ['p2', 'medium'],
+  '3': ['p3', 'low'],
+  '4': ['p4', 'minimal'],
+  open: ['todo', 'to do', 'backlog'],
+  in_progress: ['in progress', 'doing'],
+  blocked: ['blocked'],
+  closed: ['done', 'closed'],
+};
+
+/**
+ * Reference to a GitHub project (v2)
+ */
+export interface ProjectRef {
+  ownerType: 'organization' | 'user';
+  login: string;
+  number: number;
+}
+
+/**
+ * Result of the project sync pass
+ */
+export interface ProjectSyncResult {
+  synced: number;
+  /** Beads issues newly added to the project */
+  addedIds: string[];
+}
+
+/**
+ * Parse a project URL such as https://github.com/orgs/acme/projects/5
+ * Returns null if the URL is not a project URL
+ */
+export function parseProjectUrl(url: string): ProjectRef | null {
+  const match = url.match(PROJECT_URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    ownerType: match[1] === 'orgs' ? 'organization' : 'user',
+    login: match[2],
+    number: parseInt(match[3], 10),
+  };
+}
+
+/**
+ * Parse a beads estimate such as "90m", "1.5h", "2d" or "3" into hours
+ * Returns null if the estimate cannot be parsed
+ */
+export function parseEstimate(estimate: string): number | null {
+  const match = estimate.trim().match(ESTIMATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const unit = (match[2] || 'h').toLowerCase();
+  return parseFloat(match[1]) * ESTIMATE_UNIT_HOURS[unit];
+}
+
+/**
+ * Normalize an option name for comparison
+ */
+function normalizeOption(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the single-select option matching a beads value
+ */
+function findOption(
+  options: Array<{ id: string; name: string }>,
+  value: string
+): string | undefined {
+  const candidates = [value, ...(OPTION_ALIASES[value] ?? [])].map(normalizeOption);
+  return options.find((option) => candidates.includes(normalizeOption(option.name)))?.id;
+}
+
+/**
+ * Compute the project field values of a beads issue
+ * Fields missing from the project and values without matching option are
+ * reported as warnings and skipped.
+ */
+export function getProjectFieldValues(
+  issue: BeadsIssue,
+  project: Project,
+  fieldNames: Record<ProjectFieldKey, string>
+): Array<{ fieldId: string; value: ProjectFieldValue }> {
+  const beadsValues: Record<ProjectFieldKey, string | undefined> = {
+    priority: issue.priority?.toString(),
+    status: issue.status,
+    type: issue.issue_type,
+    estimate: issue.estimated_time,
+  };
+
+  const values: Array<{ fieldId: string; value: ProjectFieldValue }> = [];
+  for (const [key, fieldName] of Object.entries(fieldNames) as Array<[ProjectFieldKey, string]>) {
+    const beadsValue = beadsValues[key];
+    const field = project.fields.find((f) => f.name === fieldName);
+    if (!fieldName || beadsValue === undefined || !field) {
+      continue;
+    }
+
+    if (key === 'estimate') {
+      const hours = parseEstimate(beadsValue);
+      if (hours !== null && field.dataType === 'NUMBER') {
+        values.push({ fieldId: field.id, value: { number: hours } });
+      }
+      continue;
+    }
+
+    const optionId = findOption(field.options ?? [], beadsValue);
+    if (optionId) {
+      values.push({ fieldId: field.id, value: { singleSelectOptionId: optionId } });
+    } else {
+      core.warning(`Project field "${fieldName}" has no option for ${key} "${beadsValue}"`);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Add synced issues to the configured project and set their fields
+ *
+ * Issues are added once, tracking the project item in the mapping, and their
+ * fields are set when added and whenever the issue changed in this run.
+ */
+export async function syncProjectItems(
+  issues: BeadsIssue[],
+  changedIds: Set<string>,
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<ProjectSyncResult> {
+  const result: ProjectSyncResult = { synced: 0, addedIds: [] };
+
+  const ref = parseProjectUrl(config.projectUrl);
+  if (!ref) {
+    core.warning(`Invalid project URL: ${config.projectUrl}`);
+    return result;
+  }
+  const project = await client.getProject(ref.ownerType, ref.login, ref.number);
+  if (!project) {
+    core.warning(`Project not found: ${config.projectUrl}`);
+    return result;
+  }
+
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!issueMapping) {
+      continue;
+    }
+    const inProject = issueMapping.project_item?.project_id === project.id;
+    if (inProject && !changedIds.has(issue.id)) {
+      continue;
+    }
+
+    const issueNumber = issueMapping.github_issue_number;
+    if (config.dryRun) {
+      core.info(`[DRY RUN] Would sync #${issueNumber} to project ${config.projectUrl}`);
+      continue;
+    }
+
+    try {
+      let itemId = issueMapping.project_item?.item_id;
+      if (!inProject || !itemId) {
+        const githubIssue = await client.getIssue(issueNumber);
+        if (!githubIssue?.node_id) {
+          continue;
+        }
+        itemId = await client.addProjectItem(project.id, githubIssue.node_id);
+        issueMapping.project_item = { project_id: project.id, item_id: itemId };
+        result.addedIds.push(issue.id);
+      }
+
+      for (const { fieldId, value } of getProjectFieldValues(issue, project, config.projectFields)) {
+        await client.updateProjectItemField(project.id, itemId, fieldId, value);
+      }
+      core.info(`Synced #${issueNumber} to project ${config.projectUrl}`);
+      result.synced++;
+    } catch (error) {
+      core.warning(`Failed to sync #${issueNumber} to project: ${error}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,161 @@
+import * as core from '@actions/core';
+
+/**
+ * GitHub allows at most 80 content-creating requests per minute
+ * https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api
+ */
+const WRITE_INTERVAL_MS = 60_000 / 80;
+const WRITE_METHODS = ['POST', 'PATCH', 'PUT', 'DELETE'];
+
+/**
+ * Methods safe to send again after a server error, which may come after the
+ * request was applied. POST requests would create duplicate issues or comments.
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * GitHub asks to wait at least one minute after hitting a secondary rate limit
+ * without `Retry-After` header
+ */
+const SECONDARY_LIMIT_DELAY_MS = 60_000;
+const SERVER_ERROR_DELAY_MS = 1_000;
+
+/**
+ * Options of the request policy
+ */
+export interface RequestPolicyOptions {
+  /** Maximum number of API calls of a run, 0 for no limit */
+  budget?: number;
+  /** Retries of a request failing with a rate limit or server error */
+  maxRetries?: number;
+  /** Minimum delay between two content-creating requests */
+  writeIntervalMs?: number;
+  /** Longest delay to wait for before retrying, failing the request otherwise */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * Request error as thrown by Octokit
+ */
+interface RequestErrorLike {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+/**
+ * Compute the delay before retrying a failed request
+ * Returns null when the error is not worth retrying
+ * Rate limited requests are retried whatever their method, since they were not applied.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  now: number = Date.now(),
+  method: string = 'GET'
+): number | null {
+  const { status, message = '', response } = (error ?? {}) as RequestErrorLike;
+  const headers = response?.headers ?? {};
+
+  if (status === 403 || status === 429) {
+    const retryAfter = Number(headers['retry-after']);
+    if (retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+    // Primary rate limit: wait for the reset of the quota
+    if (String(headers['x-ratelimit-remaining']) === '0' && headers['x-ratelimit-reset']) {
+      return Math.max(Number(headers['x-ratelimit-reset']) * 1000 - now, 0) + 1000;
+    }
+    if (status === 429 || /secondary rate limit/i.test(message)) {
+      return SECONDARY_LIMIT_DELAY_MS * 2 ** attempt;
+    }
+    // Permission errors are not retried
+    return null;
+  }
+
+  if (status !== undefined && status >= 500 && IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return SERVER_ERROR_DELAY_MS * 2 ** attempt;
+  }
+  return null;
+}
+
+/**
+ * Throttling, retries and call budget applied to every GitHub API request
+ *
+ * Content-creating requests are spaced to stay under the secondary rate
+ * limit, rate limited and failed requests are retried with backoff, and the
+ * API calls are counted against the budget of the run.
+ */
+export class RequestPolicy {
+  private calls = 0;
+  private nextWriteAt = 0;
+  private readonly budget: number;
+  private readonly maxRetries: number;
+  private readonly writeIntervalMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+
+  constructor(options: RequestPolicyOptions = {}) {
+    this.budget = options.budget ?? 0;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.writeIntervalMs = options.writeIntervalMs ?? WRITE_INTERVAL_MS;
+    this.maxDelayMs = options.maxDelayMs ?? 15 * 60_000;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Number of API calls made so far, retries included
+   */
+  get callCount(): number {
+    return this.calls;
+  }
+
+  /**
+   * Whether the API call budget of the run is used up
+   */
+  get exhausted(): boolean {
+    return this.budget > 0 && this.calls >= this.budget;
+  }
+
+  /**
+   * Send a request according to the policy
+   */
+  async send<T>(method: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (WRITE_METHODS.includes(method.toUpperCase())) {
+        await this.throttleWrite();
+      }
+
+      this.calls++;
+      try {
+        return await request();
+      } catch (error) {
+        const delay = attempt < this.maxRetries ? getRetryDelay(error, attempt, this.now(), method) : null;
+        if (delay === null || delay > this.maxDelayMs) {
+          throw error;
+        }
+        core.warning(
+          `GitHub API request failed (${(error as RequestErrorLike).status}), ` +
+            `retrying in ${Math.ceil(delay / 1000)}s`
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Wait until the next content-creating request is allowed
+   */
+  private async throttleWrite(): Promise<void> {
+    const now = this.now();
+    const wait = this.nextWriteAt - now;
+    this.nextWriteAt = Math.max(now, this.nextWriteAt) + this.writeIntervalMs;
+    if (wait > 0) {
+      await this.sleep(wait);
+    }
+  }
+}
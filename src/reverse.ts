@@ -0,0 +1,414 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import {
+  BeadsIssue,
+  BeadsMutation,
+  ConflictPolicy,
+  MappingFile,
+  SyncConfig,
+  SyncConflict,
+} from './types';
+import { GitHubClient, GitHubComment, GitHubIssue } from './github';
+import { getMapping } from './mapper';
+import { computeContentHash } from './state';
+import { needsUpdate } from './diff';
+import { isSyncerLabel, getSyncMarkerLabel, toBeadsLabel } from './labels';
+import { getEpicChildren, isSyncerComment } from './template';
+import { parseBeadsLine } from './parser';
+import { getImportedCommentId } from './comments';
+import { SyncedIssueListing } from './store';
+
+/**
+ * Result of comparing GitHub issues with their beads counterparts
+ */
+export interface ReverseDiffResult {
+  mutations: BeadsMutation[];
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Result of the reverse sync pass
+ */
+export interface ReverseSyncResult extends ReverseDiffResult {
+  issues: BeadsIssue[];
+  /** Beads IDs of the issues in sync before GitHub changes were applied to them */
+  appliedIds: string[];
+}
+
+/**
+ * Decide which side wins a conflicting change
+ */
+function resolveConflict(
+  issue: BeadsIssue,
+  githubIssue: GitHubIssue,
+  policy: ConflictPolicy
+): 'beads' | 'github' {
+  switch (policy) {
+    case 'github-wins':
+      return 'github';
+    case 'newest-wins': {
+      const githubUpdated = new Date(githubIssue.updated_at ?? 0).getTime();
+      const beadsUpdated = new Date(issue.updated_at).getTime();
+      return githubUpdated > beadsUpdated ? 'github' : 'beads';
+    }
+    default:
+      return 'beads';
+  }
+}
+
+/**
+ * Check whether two label lists hold the same labels, regardless of order
+ */
+function sameLabels(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && [...setA].every((label) => setB.has(label));
+}
+
+/**
+ * Compute the beads mutations reflecting changes made on GitHub
+ *
+ * A field that differs between beads and GitHub is a GitHub-side change when
+ * the beads issue is unchanged since the last sync, and a conflict resolved
+ * by the conflict policy otherwise. Comments are only ever added.
+ */
+export function computeReverseDiff(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  githubIssues: GitHubIssue[],
+  githubComments: GitHubComment[],
+  config: Pick<SyncConfig, 'labelPrefix' | 'labelScheme' | 'conflictPolicy'>
+): ReverseDiffResult {
+  const mutations: BeadsMutation[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  const githubIssuesByNumber = new Map(githubIssues.map((i) => [i.number, i]));
+  const commentsByIssue = new Map<number, GitHubComment[]>();
+  for (const comment of githubComments) {
+    const comments = commentsByIssue.get(comment.issueNumber) ?? [];
+    comments.push(comment);
+    commentsByIssue.set(comment.issueNumber, comments);
+  }
+
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!issueMapping) {
+      continue;
+    }
+    const githubIssueNumber = issueMapping.github_issue_number;
+
+    const githubIssue = githubIssuesByNumber.get(githubIssueNumber);
+    if (githubIssue) {
+      const changes: Array<{ field: SyncConflict['field']; mutation: BeadsMutation }> = [];
+
+      // Closed or reopened on GitHub
+      const githubClosed = githubIssue.state === 'closed';
+      if (githubClosed !== (issue.status === 'closed')) {
+        changes.push({
+          field: 'status',
+          mutation: {
+            type: 'set-status',
+            issue_id: issue.id,
+            github_issue_number: githubIssueNumber,
+            status: githubClosed ? 'closed' : 'open',
+          },
+        });
+      }
+
+      // Labels added or removed on GitHub, ignoring the generated ones
+      const githubLabels = githubIssue.labels
+        .filter((label) => !isSyncerLabel(label, config.labelPrefix, config.labelScheme))
+        .map((label) => toBeadsLabel(label, config.labelScheme));
+      if (!sameLabels(githubLabels, issue.labels ?? [])) {
+        changes.push({
+          field: 'labels',
+          mutation: {
+            type: 'set-labels',
+            issue_id: issue.id,
+            github_issue_number: githubIssueNumber,
+            labels: githubLabels,
+          },
+        });
+      }
+
+      // Assigned on GitHub. An empty GitHub assignee is not imported since
+      // beads assignees that are not valid GitHub users are never assigned.
+      const githubAssignees = githubIssue.assignees ?? [];
+      if (
+        githubAssignees.length > 0 &&
+        !githubAssignees.includes(issue.assignee ?? '')
+      ) {
+        changes.push({
+          field: 'assignee',
+          mutation: {
+            type: 'set-assignee',
+            issue_id: issue.id,
+            github_issue_number: githubIssueNumber,
+            assignee: githubAssignees[0],
+          },
+        });
+      }
+
+      // Beads is unchanged if either its content or its content with the
+      // pending GitHub changes (not yet applied in patch mode) was last synced
+      const children = getEpicChildren(issue, issues, mapping);
+      const beadsChanged =
+        changes.length > 0 &&
+        needsUpdate(issue, issueMapping, children) &&
+        needsUpdate(
+          applyIssueMutations(issue, changes.map((c) => c.mutation)),
+          issueMapping,
+          children
+        );
+
+      for (const { field, mutation } of changes) {
+        if (!beadsChanged) {
+          mutations.push(mutation);
+          continue;
+        }
+        const winner = resolveConflict(issue, githubIssue, config.conflictPolicy);
+        conflicts.push({ issue_id: issue.id, field, winner });
+        if (winner === 'github') {
+          mutations.push(mutation);
+        }
+      }
+    }
+
+    // Comments posted on GitHub by people rather than by the syncer
+    const syncedCommentIds = new Set(
+      Object.values(issueMapping.comments ?? {}).map((c) => c.github_comment_id)
+    );
+    const beadsCommentIds = new Set((issue.comments ?? []).map((c) => c.id));
+    for (const comment of commentsByIssue.get(githubIssueNumber) ?? []) {
+      if (
+        syncedCommentIds.has(comment.id) ||
+        beadsCommentIds.has(getImportedCommentId(comment.id)) ||
+        isSyncerComment(comment.body)
+      ) {
+        continue;
+      }
+      mutations.push({
+        type: 'add-comment',
+        issue_id: issue.id,
+        github_issue_number: githubIssueNumber,
+        comment: {
+          id: getImportedCommentId(comment.id),
+          author: comment.author,
+          created_at: comment.created_at,
+          body: comment.body,
+        },
+      });
+    }
+  }
+
+  return { mutations, conflicts };
+}
+
+/**
+ * Apply mutations to a single beads issue
+ * Unknown fields of the issue are preserved
+ */
+function applyIssueMutations(
+  issue: BeadsIssue,
+  mutations: BeadsMutation[],
+  updatedAt?: string
+): BeadsIssue {
+  const mutated: BeadsIssue = { ...issue };
+
+  for (const mutation of mutations) {
+    switch (mutation.type) {
+      case 'add-comment':
+        mutated.comments = [...(mutated.comments ?? []), mutation.comment!];
+        break;
+      case 'set-status':
+        mutated.status = mutation.status!;
+        break;
+      case 'set-labels':
+        mutated.labels = mutation.labels!;
+        break;
+      case 'set-assignee':
+        mutated.assignee = mutation.assignee!;
+        break;
+    }
+  }
+
+  if (updatedAt && mutations.length > 0) {
+    mutated.updated_at = updatedAt;
+  }
+
+  return mutated;
+}
+
+/**
+ * Group mutations by beads issue ID
+ */
+function groupMutations(mutations: BeadsMutation[]): Map<string, BeadsMutation[]> {
+  const grouped = new Map<string, BeadsMutation[]>();
+  for (const mutation of mutations) {
+    const issueMutations = grouped.get(mutation.issue_id) ?? [];
+    issueMutations.push(mutation);
+    grouped.set(mutation.issue_id, issueMutations);
+  }
+  return grouped;
+}
+
+/**
+ * Apply mutations to beads issues
+ * `updatedAt` is set as the new updated_at of every mutated issue, if given
+ */
+export function applyMutations(
+  issues: BeadsIssue[],
+  mutations: BeadsMutation[],
+  updatedAt?: string
+): BeadsIssue[] {
+  const grouped = groupMutations(mutations);
+  return issues.map((issue) =>
+    applyIssueMutations(issue, grouped.get(issue.id) ?? [], updatedAt)
+  );
+}
+
+/**
+ * Apply mutations to the content of a beads issues.jsonl file
+ * Lines of issues that are not mutated are kept verbatim
+ */
+export function applyMutationsToJsonl(
+  content: string,
+  mutations: BeadsMutation[],
+  updatedAt?: string
+): string {
+  const grouped = groupMutations(mutations);
+  return content
+    .split('\n')
+    .map((line) => {
+      const issue = parseBeadsLine(line);
+      const issueMutations = issue ? grouped.get(issue.id) : undefined;
+      if (!issue || !issueMutations) {
+        return line;
+      }
+      return JSON.stringify(applyIssueMutations(issue, issueMutations, updatedAt));
+    })
+    .join('\n');
+}
+
+/**
+ * Serialize mutations as JSONL
+ */
+export function serializeMutations(mutations: BeadsMutation[]): string {
+  return mutations.map((mutation) => `${JSON.stringify(mutation)}\n`).join('');
+}
+
+/**
+ * Import changes made on GitHub into beads
+ * Returns the beads issues with the GitHub changes applied, so that the
+ * forward sync does not revert them
+ *
+ * `listing` holds the synced issues listed while loading the mapping, reused
+ * along with its `since` timestamp instead of listing them again. Patch mode
+ * recomputes all pending changes on every run, so it only reuses full listings.
+ */
+export async function runReverseSync(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig,
+  listing?: SyncedIssueListing
+): Promise<ReverseSyncResult> {
+  if (config.reverseSync === 'off') {
+    return { issues, mutations: [], conflicts: [], appliedIds: [] };
+  }
+
+  core.info('Importing changes made on GitHub...');
+  const syncMarkerLabel = getSyncMarkerLabel(config.labelPrefix, config.labelScheme);
+  const reused =
+    listing && (listing.since === undefined || config.reverseSync === 'apply')
+      ? listing
+      : undefined;
+  const githubIssues = reused?.issues ?? (await client.listIssuesByLabel(syncMarkerLabel));
+  const githubComments = await client.listRepoComments(reused?.since);
+
+  const { mutations, conflicts } = computeReverseDiff(
+    issues,
+    mapping,
+    githubIssues,
+    githubComments,
+    config
+  );
+
+  for (const conflict of conflicts) {
+    core.warning(
+      `Conflict on ${conflict.issue_id} (${conflict.field}): changed in beads and on GitHub, ` +
+        `keeping the ${conflict.winner} version`
+    );
+  }
+  for (const mutation of mutations) {
+    core.info(
+      `${config.dryRun ? '[DRY RUN] Would import' : 'Importing'} ${mutation.type} ` +
+        `from #${mutation.github_issue_number} into ${mutation.issue_id}`
+    );
+  }
+
+  if (config.dryRun) {
+    return { issues: applyMutations(issues, mutations), mutations, conflicts, appliedIds: [] };
+  }
+
+  if (config.reverseSync === 'apply') {
+    const updatedAt = new Date().toISOString();
+    if (mutations.length > 0) {
+      const content = fs.readFileSync(config.beadsFile, 'utf-8');
+      fs.writeFileSync(
+        config.beadsFile,
+        applyMutationsToJsonl(content, mutations, updatedAt)
+      );
+      core.info(`Applied ${mutations.length} GitHub changes to ${config.beadsFile}`);
+    }
+
+    // Issues without beads changes of their own, now only carrying GitHub changes
+    const mutatedIds = new Set(mutations.map((mutation) => mutation.issue_id));
+    const appliedIds = issues
+      .filter((issue) => {
+        const issueMapping = getMapping(mapping, issue.id);
+        return (
+          mutatedIds.has(issue.id) &&
+          issueMapping !== undefined &&
+          !needsUpdate(issue, issueMapping, getEpicChildren(issue, issues, mapping))
+        );
+      })
+      .map((issue) => issue.id);
+
+    return {
+      issues: applyMutations(issues, mutations, updatedAt),
+      mutations,
+      conflicts,
+      appliedIds,
+    };
+  }
+
+  // Pending changes are recomputed on every run until applied to beads
+  fs.writeFileSync(config.reverseSyncFile, serializeMutations(mutations));
+  core.info(`Wrote ${mutations.length} GitHub changes to ${config.reverseSyncFile}`);
+  return { issues: applyMutations(issues, mutations), mutations, conflicts, appliedIds: [] };
+}
+
+/**
+ * Record the GitHub changes applied to beads as synced when the forward sync
+ * did not sync them (e.g. filtered out or failed), so that the next run
+ * doesn't take them for beads changes conflicting with GitHub
+ */
+export function markAppliedChangesSynced(reverse: ReverseSyncResult, mapping: MappingFile): void {
+  const appliedIds = new Set(reverse.appliedIds);
+  for (const issue of reverse.issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (
+      !appliedIds.has(issue.id) ||
+      !issueMapping ||
+      issueMapping.beads_updated_at === issue.updated_at
+    ) {
+      continue;
+    }
+    issueMapping.beads_updated_at = issue.updated_at;
+    issueMapping.content_hash = computeContentHash(
+      issue,
+      getEpicChildren(issue, reverse.issues, mapping)
+    );
+  }
+}
@@ -0,0 +1,260 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+
+import { BeadsIssue, DiffResult, MappingFile, SyncConfig, SyncResult } from './types';
+import { parseBeadsFile } from './parser';
+import { GitHubClient } from './github';
+import { filterIssues, runSync } from './sync';
+import { computeDiff } from './diff';
+import { createMappingStore, SyncedIssueListing } from './store';
+import { runReverseSync, markAppliedChangesSynced, ReverseSyncResult } from './reverse';
+import { postPreviewComment } from './preview';
+import { migrateMappingBase, MigrationResult } from './migrate';
+
+/**
+ * Outcome of a complete sync run
+ */
+export interface SyncOutcome {
+  result: SyncResult;
+  reverse: ReverseSyncResult;
+  /** GitHub API calls made by the run */
+  apiCalls: number;
+}
+
+/**
+ * Pending changes between beads and GitHub, computed without applying them
+ */
+export interface SyncStatus {
+  total: number;
+  inScope: number;
+  mapped: number;
+  diff: DiffResult;
+}
+
+/**
+ * Read file content, returning empty string if not found
+ */
+function readFileOrEmpty(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Read and parse the beads issues
+ * Returns null if there is nothing to sync
+ */
+export function readBeadsIssues(config: SyncConfig): BeadsIssue[] | null {
+  const beadsContent = readFileOrEmpty(config.beadsFile);
+  if (!beadsContent) {
+    core.warning(`Beads file not found: ${config.beadsFile}`);
+    core.info('Nothing to sync');
+    return null;
+  }
+
+  const parseResult = parseBeadsFile(beadsContent);
+  core.info(`Parsed ${parseResult.issues.length} issues`);
+
+  if (parseResult.errors.length > 0) {
+    core.warning(`${parseResult.errors.length} parse errors:`);
+    for (const err of parseResult.errors) {
+      core.warning(`  Line ${err.line}: ${err.error}`);
+    }
+  }
+
+  if (parseResult.issues.length === 0) {
+    core.info('No valid issues to sync');
+    return null;
+  }
+
+  return parseResult.issues;
+}
+
+/**
+ * Create the GitHub client of the configured repository
+ */
+function createClient(config: SyncConfig): GitHubClient {
+  return new GitHubClient({
+    token: config.githubToken,
+    owner: config.owner,
+    repo: config.repo,
+    requestPolicy: { budget: config.apiBudget },
+  });
+}
+
+/**
+ * Create the GitHub client and load the mapping from the configured store
+ */
+async function connect(config: SyncConfig): Promise<{
+  client: GitHubClient;
+  mapping: MappingFile;
+  listing?: SyncedIssueListing;
+  save: () => Promise<void>;
+}> {
+  const client = createClient(config);
+
+  core.info(`Mapping store: ${config.mappingStore}`);
+  const store = createMappingStore(client, config);
+  const mapping = await store.load();
+  core.info(`Built mapping with ${Object.keys(mapping.mappings).length} entries`);
+
+  return { client, mapping, listing: store.getListing(), save: () => store.save(mapping) };
+}
+
+/**
+ * Run a complete sync: import GitHub changes, push beads changes and save
+ * the mapping. Returns null if there is nothing to sync.
+ */
+export async function executeSync(config: SyncConfig): Promise<SyncOutcome | null> {
+  core.info(`Beads Syncer starting...`);
+  core.info(`Repository: ${config.owner}/${config.repo}`);
+  core.info(`Beads file: ${config.beadsFile}`);
+  if (config.dryRun) {
+    core.info('DRY RUN MODE - no changes will be made');
+  }
+
+  const issues = readBeadsIssues(config);
+  if (!issues) {
+    return null;
+  }
+
+  // Recorded before scanning GitHub, so edits made during the run are scanned next time
+  const startedAt = new Date().toISOString();
+  const { client, mapping, listing, save } = await connect(config);
+
+  // Import changes made on GitHub before pushing beads changes
+  const reverse = await runReverseSync(issues, mapping, client, config, listing);
+
+  const result = await runSync(reverse.issues, mapping, client, config, startedAt);
+
+  if (!config.dryRun) {
+    markAppliedChangesSynced(reverse, mapping);
+    await save();
+  }
+
+  if (result.plan) {
+    fs.writeFileSync(config.planFile, `${JSON.stringify(result.plan, null, 2)}\n`);
+    core.info(`Wrote sync plan to ${config.planFile}`);
+
+    if (config.pullRequest !== undefined) {
+      await postPreviewComment(client, config.pullRequest, result.plan, config.planFile);
+    }
+  }
+
+  return { result, reverse, apiCalls: client.apiCalls };
+}
+
+/**
+ * Rewrite the titles and labels of the synced issues to the configured mapping base
+ */
+export async function executeMigration(config: SyncConfig): Promise<MigrationResult> {
+  core.info(`Repository: ${config.owner}/${config.repo}`);
+  if (config.dryRun) {
+    core.info('DRY RUN MODE - no changes will be made');
+  }
+
+  return migrateMappingBase(createClient(config), config);
+}
+
+/**
+ * Log the summary of a migration between mapping bases
+ */
+export function logMigrationSummary(result: MigrationResult, config: SyncConfig): void {
+  core.info('');
+  core.info('=== Migration Summary ===');
+  core.info(`Mapping base: ${config.mappingBase}`);
+  core.info(`${config.dryRun ? 'To migrate' : 'Migrated'}: ${result.migrated}`);
+  core.info(`Already migrated: ${result.unchanged}`);
+  core.info(`Conflicts: ${result.conflicts.length}`);
+}
+
+/**
+ * Compute the pending changes without touching GitHub or beads
+ * Returns null if there is nothing to sync.
+ */
+export async function computeSyncStatus(config: SyncConfig): Promise<SyncStatus | null> {
+  const issues = readBeadsIssues(config);
+  if (!issues) {
+    return null;
+  }
+
+  const { mapping } = await connect(config);
+  const filteredIssues = filterIssues(issues, config);
+
+  return {
+    total: issues.length,
+    inScope: filteredIssues.length,
+    mapped: filteredIssues.filter((issue) => mapping.mappings[issue.id]).length,
+    diff: computeDiff(filteredIssues, mapping, issues),
+  };
+}
+
+/**
+ * Log the summary of a sync run
+ */
+export function logSyncSummary(outcome: SyncOutcome, config: SyncConfig): void {
+  const { result, reverse } = outcome;
+
+  core.info('');
+  core.info('=== Sync Summary ===');
+  core.info(`Created: ${result.created}`);
+  core.info(`Updated: ${result.updated}`);
+  core.info(`Closed: ${result.closed}`);
+  core.info(`Reopened: ${result.reopened}`);
+  core.info(`Adopted: ${result.adopted}`);
+  core.info(`Comments synced: ${result.commentsSynced}`);
+  core.info(`Comments updated: ${result.commentsUpdated}`);
+  core.info(`Comments deleted: ${result.commentsDeleted}`);
+  const duplicateCount = result.duplicates.reduce((sum, { duplicates }) => sum + duplicates.length, 0);
+  core.info(`Duplicates ${config.dryRun ? 'to close' : 'closed'}: ${duplicateCount}`);
+  for (const collision of result.duplicates) {
+    core.info(
+      `  ${collision.beadsId}: kept #${collision.canonical}, ` +
+        `duplicates ${collision.duplicates.map((number) => `#${number}`).join(', ') || 'not closed'}`
+    );
+  }
+  if (config.adoptByTitle) {
+    core.info(`Borderline title matches: ${result.borderlineTitleMatches.length}`);
+    for (const match of result.borderlineTitleMatches) {
+      core.info(`  ${match.beads_id}: #${match.github_issue_number} (score ${match.score})`);
+    }
+  }
+  if (config.subIssues) {
+    core.info(`Sub-issues linked: ${result.subIssuesLinked}`);
+    core.info(`Sub-issues unlinked: ${result.subIssuesUnlinked}`);
+  }
+  if (config.crossLinks !== 'off') {
+    core.info(`Cross-links added: ${result.crossLinksAdded}`);
+    core.info(`Cross-links removed: ${result.crossLinksRemoved}`);
+  }
+  if (config.projectUrl) {
+    core.info(`Project items synced: ${result.projectItemsSynced}`);
+  }
+  if (config.issueTypes) {
+    core.info(`Unmapped issue types: ${result.unmappedIssueTypes.join(', ') || 'none'}`);
+  }
+  if (config.cleanupLabels) {
+    const verb = config.dryRun ? 'to delete' : 'deleted';
+    core.info(`Orphaned labels ${verb}: ${result.orphanedLabels.join(', ') || 'none'}`);
+  }
+  if (config.reverseSync !== 'off') {
+    core.info(`Imported from GitHub: ${reverse.mutations.length}`);
+    core.info(`Conflicts: ${reverse.conflicts.length}`);
+  }
+
+  core.info(`API calls: ${outcome.apiCalls}`);
+  if (result.budgetExhausted) {
+    core.warning(
+      `API call budget of ${config.apiBudget} exhausted: run the sync again to apply the remaining changes`
+    );
+  }
+
+  if (result.errors.length > 0) {
+    core.warning(`Errors: ${result.errors.length}`);
+    for (const err of result.errors) {
+      core.warning(`  ${err.beadsIssueId} (${err.action}): ${err.message}`);
+    }
+  }
+}
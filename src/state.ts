@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { BeadsComment, BeadsIssue, IssueSyncState } from './types';
+
+const SYNC_STATE_PREFIX = '<!-- beads-sync-state:';
+const SYNC_STATE_SUFFIX = ' -->';
+const SYNC_STATE_PATTERN = /^<!-- beads-sync-state:(\{.*?\}) -->/s;
+
+/**
+ * Compute a stable hash of the beads issue content rendered on GitHub
+ * Comments are excluded since they are tracked individually. `related` holds
+ * the content of other issues rendered in the body (e.g. epic children).
+ */
+export function computeContentHash(issue: BeadsIssue, related?: unknown): string {
+  const content = JSON.stringify({ ...issue, comments: undefined, related });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compute a stable hash of a beads comment content
+ */
+export function computeCommentHash(comment: BeadsComment): string {
+  const content = JSON.stringify([comment.author, comment.created_at, comment.body]);
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Render the hidden sync state block embedded in the GitHub issue body
+ */
+export function renderSyncState(state: IssueSyncState): string {
+  // `--` is escaped so the JSON can never terminate the HTML comment early
+  const json = JSON.stringify(state).replace(/--/g, '-\\u002d');
+  return `${SYNC_STATE_PREFIX}${json}${SYNC_STATE_SUFFIX}`;
+}
+
+/**
+ * Extract the sync state block from a GitHub issue body
+ * Returns null if no valid state block is found
+ * The syncer renders its block last, below the description, so only the last
+ * block is read and a block quoted in the description can't override it.
+ */
+export function extractSyncStateFromBody(
+  body: string | null
+): IssueSyncState | null {
+  if (!body) {
+    return null;
+  }
+
+  const start = body.lastIndexOf(SYNC_STATE_PREFIX);
+  const match = start === -1 ? null : body.slice(start).match(SYNC_STATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(match[1]) as IssueSyncState;
+    if (typeof state.beads_updated_at !== 'string') {
+      return null;
+    }
+    return {
+      ...state,
+      comments: state.comments ?? {},
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MappingFile, SyncConfig } from './types';
+import { GitHubClient, GitHubIssue } from './github';
+import { getSyncMarkerLabel } from './labels';
+import {
+  buildMappingFromGitHubIssues,
+  createEmptyMapping,
+  deserializeMapping,
+  getMappedBeadsIds,
+  reconcileMapping,
+  serializeMapping,
+} from './mapper';
+
+/**
+ * Backend loading and saving the mapping between beads and GitHub issues
+ */
+export interface MappingStore {
+  load(): Promise<MappingFile>;
+  save(mapping: MappingFile): Promise<void>;
+  /** Synced GitHub issues listed by the last load */
+  getListing(): SyncedIssueListing | undefined;
+}
+
+/**
+ * Synced GitHub issues listed while loading a mapping
+ */
+export interface SyncedIssueListing {
+  issues: GitHubIssue[];
+  /** Only the issues updated since this timestamp are listed, when set */
+  since?: string;
+}
+
+/**
+ * List synced GitHub issues and build a mapping from them
+ * When `since` is set, only issues updated after that timestamp are scanned
+ */
+async function scanGitHubIssues(
+  client: GitHubClient,
+  config: SyncConfig,
+  since?: string
+): Promise<{ mapping: MappingFile; listing: SyncedIssueListing }> {
+  const syncMarkerLabel = getSyncMarkerLabel(config.labelPrefix, config.labelScheme);
+  core.info(
+    `Fetching ${since ? `synced issues updated since ${since}` : 'existing synced issues'} ` +
+      `with label: ${syncMarkerLabel}`
+  );
+  const existingIssues = await client.listIssuesByLabel(syncMarkerLabel, since);
+  core.info(`Found ${existingIssues.length} existing synced issues`);
+
+  const mapping = buildMappingFromGitHubIssues(
+    existingIssues,
+    config.labelPrefix,
+    config.mappingBase
+  );
+  return { mapping, listing: { issues: existingIssues, since } };
+}
+
+/**
+ * Load a stored mapping and reconcile it with the GitHub issues updated since
+ * the last sync. An empty stored mapping triggers a full scan.
+ */
+async function loadAndReconcile(
+  stored: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<{ mapping: MappingFile; listing: SyncedIssueListing }> {
+  const isEmpty = getMappedBeadsIds(stored).length === 0;
+  const { mapping, listing } = await scanGitHubIssues(
+    client,
+    config,
+    isEmpty ? undefined : stored.sync_metadata.last_full_sync
+  );
+  return { mapping: reconcileMapping(stored, mapping), listing };
+}
+
+/**
+ * Store rebuilding the mapping from GitHub issues on every run
+ */
+function createGitHubScanStore(
+  client: GitHubClient,
+  config: SyncConfig
+): MappingStore {
+  let listing: SyncedIssueListing | undefined;
+
+  return {
+    load: async () => {
+      const scanned = await scanGitHubIssues(client, config);
+      listing = scanned.listing;
+      return scanned.mapping;
+    },
+    // The state lives in the issues themselves
+    save: async () => undefined,
+    getListing: () => listing,
+  };
+}
+
+/**
+ * Store keeping the mapping in a JSON file of the workspace
+ */
+function createFileStore(client: GitHubClient, config: SyncConfig): MappingStore {
+  let listing: SyncedIssueListing | undefined;
+
+  return {
+    load: async () => {
+      let stored = createEmptyMapping();
+      if (fs.existsSync(config.mappingFile)) {
+        core.info(`Loading mapping file: ${config.mappingFile}`);
+        stored = deserializeMapping(fs.readFileSync(config.mappingFile, 'utf-8'));
+      } else {
+        core.info(`Mapping file not found, starting from scratch: ${config.mappingFile}`);
+      }
+      const loaded = await loadAndReconcile(stored, client, config);
+      listing = loaded.listing;
+      return loaded.mapping;
+    },
+    save: async (mapping) => {
+      fs.mkdirSync(path.dirname(config.mappingFile), { recursive: true });
+      fs.writeFileSync(config.mappingFile, `${serializeMapping(mapping)}\n`);
+      // The action doesn't commit, the workflow has to for the next run to load it
+      core.info(
+        `Saved mapping file: ${config.mappingFile} (commit it to keep it for the next run)`
+      );
+    },
+    getListing: () => listing,
+  };
+}
+
+/**
+ * Store keeping the mapping in a JSON file committed to a dedicated branch
+ */
+function createGitBranchStore(
+  client: GitHubClient,
+  config: SyncConfig
+): MappingStore {
+  // Blob SHA of the loaded file, required to update it
+  let sha: string | undefined;
+  let listing: SyncedIssueListing | undefined;
+
+  return {
+    load: async () => {
+      core.info(`Loading mapping file ${config.mappingFile} from branch ${config.mappingBranch}`);
+      const file = await client.getFileContent(config.mappingFile, config.mappingBranch);
+      sha = file?.sha;
+      const stored = file ? deserializeMapping(file.content) : createEmptyMapping();
+      const loaded = await loadAndReconcile(stored, client, config);
+      listing = loaded.listing;
+      return loaded.mapping;
+    },
+    save: async (mapping) => {
+      await client.ensureBranch(config.mappingBranch);
+      // A branch created from the default branch may already hold the file
+      if (!sha) {
+        sha = (await client.getFileContent(config.mappingFile, config.mappingBranch))?.sha;
+      }
+      await client.writeFileContent(
+        config.mappingFile,
+        config.mappingBranch,
+        `${serializeMapping(mapping)}\n`,
+        'Update beads sync mapping',
+        sha
+      );
+      core.info(`Saved mapping file ${config.mappingFile} to branch ${config.mappingBranch}`);
+    },
+    getListing: () => listing,
+  };
+}
+
+/**
+ * Create the mapping store selected by the configuration
+ */
+export function createMappingStore(
+  client: GitHubClient,
+  config: SyncConfig
+): MappingStore {
+  switch (config.mappingStore) {
+    case 'file':
+      return createFileStore(client, config);
+    case 'git-branch':
+      return createGitBranchStore(client, config);
+    default:
+      return createGitHubScanStore(client, config);
+  }
+}
@@ -0,0 +1,82 @@
+import * as core from '@actions/core';
+import { BeadsIssue, MappingFile } from './types';
+import { GitHubClient } from './github';
+import { getMapping } from './mapper';
+
+/**
+ * Result of the sub-issue linking pass
+ */
+export interface SubIssueSyncResult {
+  linked: number;
+  unlinked: number;
+  /** Beads issues whose parent link changed */
+  changedIds: string[];
+}
+
+/**
+ * Get the beads ID of the parent epic of an issue, if any
+ */
+export function getParentId(issue: BeadsIssue): string | undefined {
+  return issue.dependencies?.find((dep) => dep.type === 'parent-child')?.id;
+}
+
+/**
+ * Link each GitHub issue as sub-issue of its parent epic's GitHub issue
+ *
+ * The linked parent is tracked in the mapping, so links are only changed when
+ * the parent-child dependency changed: a child moved to another epic is moved
+ * to the new parent and a child without epic is unlinked.
+ */
+export async function syncSubIssues(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  dryRun: boolean
+): Promise<SubIssueSyncResult> {
+  const result: SubIssueSyncResult = { linked: 0, unlinked: 0, changedIds: [] };
+
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!issueMapping) {
+      continue;
+    }
+
+    const parentId = getParentId(issue);
+    const parentNumber = parentId
+      ? getMapping(mapping, parentId)?.github_issue_number
+      : undefined;
+    const currentParentNumber = issueMapping.parent_issue_number;
+    if (parentNumber === currentParentNumber) {
+      continue;
+    }
+
+    const issueNumber = issueMapping.github_issue_number;
+    if (dryRun) {
+      core.info(
+        parentNumber
+          ? `[DRY RUN] Would link #${issueNumber} as sub-issue of #${parentNumber}`
+          : `[DRY RUN] Would unlink #${issueNumber} from #${currentParentNumber}`
+      );
+      continue;
+    }
+
+    try {
+      if (parentNumber) {
+        // Also moves the issue away from its current parent
+        await client.addSubIssue(parentNumber, issueMapping.github_issue_id);
+        core.info(`Linked #${issueNumber} as sub-issue of #${parentNumber}`);
+        result.linked++;
+      } else {
+        await client.removeSubIssue(currentParentNumber!, issueMapping.github_issue_id);
+        core.info(`Unlinked #${issueNumber} from #${currentParentNumber}`);
+        result.unlinked++;
+      }
+      issueMapping.parent_issue_number = parentNumber;
+      result.changedIds.push(issue.id);
+    } catch (error) {
+      core.warning(`Failed to update the parent of #${issueNumber}: ${error}`);
+    }
+  }
+
+  return result;
+}
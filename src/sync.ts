@@ -6,8 +6,12 @@ import {
   SyncResult,
   SyncAction,
   SyncError,
+  RenderedIssue,
+  DiffResult,
+  SyncPlan,
+  TitleMatch,
 } from './types';
-import { GitHubClient } from './github';
+import { GitHubClient, GitHubIssue } from './github';
 import {
   setMapping,
   createIssueMapping,
@@ -15,9 +19,30 @@ import {
   updateLastSyncTime,
 } from './mapper';
 import { computeDiff } from './diff';
-import { generateIssueBody, generateClosingComment, generateDeletionComment } from './template';
-import { getLabelsForIssue, getAllRequiredLabels, createEpicLabelConfig } from './labels';
-import { syncComments } from './comments';
+import {
+  IssueBodyContext,
+  generateIssueBody,
+  generateClosingComment,
+  generateDeletionComment,
+  getEpicChildren,
+  computeBodyContentHash,
+} from './template';
+import {
+  getLabelsForIssue,
+  getAllRequiredLabels,
+  createEpicLabelConfig,
+  reconcileLabels,
+  findOrphanedLabels,
+} from './labels';
+import { syncComments, syncCommentChanges } from './comments';
+import { planIssueChange, planCommentChanges } from './plan';
+import { syncSubIssues } from './subissues';
+import { syncCrossLinks } from './crosslinks';
+import { closeDuplicates, resolveAdoptedDuplicates } from './duplicates';
+import { findTitleMatches } from './titlematch';
+import { syncProjectItems } from './projects';
+import { resolveIssueType, findUnmappedIssueTypes } from './issuetypes';
+import { runWithConcurrency } from './concurrency';
 
 /**
  * Filter issues based on sync configuration
@@ -55,32 +80,114 @@ export function filterIssues(
   });
 }
 
+/**
+ * Record in the mapping that a beads issue has been synced at its current state
+ */
+function markIssueSynced(
+  mapping: MappingFile,
+  beadsIssue: BeadsIssue,
+  labels: string[],
+  contentHash: string | undefined
+): void {
+  const existingMapping = getMapping(mapping, beadsIssue.id);
+  if (existingMapping) {
+    existingMapping.beads_updated_at = beadsIssue.updated_at;
+    existingMapping.content_hash = contentHash;
+    existingMapping.github_state = beadsIssue.status === 'closed' ? 'closed' : 'open';
+    existingMapping.synced_labels = labels;
+    existingMapping.last_sync_at = new Date().toISOString();
+  }
+}
+
+/**
+ * Merge the labels rendered for a beads issue into the current labels of its
+ * GitHub issue, leaving the labels not owned by the syncer untouched
+ */
+function mergeIssueLabels(
+  current: GitHubIssue | null,
+  labels: string[],
+  mapping: MappingFile,
+  beadsId: string,
+  config: SyncConfig
+): string[] {
+  if (!current) {
+    return labels;
+  }
+  return reconcileLabels(
+    current.labels,
+    labels,
+    getMapping(mapping, beadsId)?.synced_labels,
+    config.labelPrefix,
+    config.labelScheme
+  );
+}
+
+/**
+ * Render the GitHub issue content of a beads issue
+ * `issues` are all parsed beads issues, some of which are rendered in the body
+ * `pendingIds` are the beads issues created or adopted in this run.
+ */
+export async function renderGitHubIssue(
+  beadsIssue: BeadsIssue,
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig,
+  issues: BeadsIssue[],
+  pendingIds?: Set<string>
+): Promise<RenderedIssue> {
+  // Native issue type, falling back to the type label when not available
+  const type = config.issueTypes
+    ? resolveIssueType(beadsIssue.issue_type, config.issueTypeMapping, await client.listIssueTypes())
+    : undefined;
+
+  const labels = getLabelsForIssue(beadsIssue, {
+    addSyncMarker: config.addSyncMarker,
+    labelPrefix: config.labelPrefix,
+    labelScheme: config.labelScheme,
+    setIdAsLabel: config.mappingBase === 'label',
+    addTypeLabel: type === undefined,
+  });
+
+  const context: IssueBodyContext = {
+    issues,
+    dependencyGraph: config.dependencyGraph,
+    labels,
+    templates: config.templates,
+    pendingIds,
+  };
+  const body = generateIssueBody(beadsIssue, mapping, context);
+  const contentHash = computeBodyContentHash(beadsIssue, mapping, context);
+
+  // Validate and filter assignees
+  let assignees: string[] = [];
+  if (beadsIssue.assignee) {
+    assignees = await client.filterValidAssignees([beadsIssue.assignee]);
+  }
+
+  const title = config.mappingBase === 'title' ? `[${beadsIssue.id}] ${beadsIssue.title}` : beadsIssue.title;
+
+  return { title, body, labels, assignees, type, contentHash };
+}
+
 /**
  * Execute a sync action
+ * `rendered` is the content already rendered for the plan of a dry run.
  */
 async function executeAction(
   action: SyncAction,
   mapping: MappingFile,
   client: GitHubClient,
-  config: SyncConfig
+  config: SyncConfig,
+  issues: BeadsIssue[],
+  pendingIds: Set<string>,
+  rendered?: RenderedIssue
 ): Promise<SyncError | null> {
   const { beadsIssue } = action;
 
   try {
-    const body = generateIssueBody(beadsIssue, mapping);
-    const labels = getLabelsForIssue(beadsIssue, {
-      addSyncMarker: config.addSyncMarker,
-      labelPrefix: config.labelPrefix,
-      setIdAsLabel: config.mappingBase === 'label'
-    });
-
-    // Validate and filter assignees
-    let assignees: string[] = [];
-    if (beadsIssue.assignee) {
-      assignees = await client.filterValidAssignees([beadsIssue.assignee]);
-    }
-
-    const title = config.mappingBase === 'title' ? `[${beadsIssue.id}] ${beadsIssue.title}` : beadsIssue.title;
+    const { title, body, labels, assignees, type, contentHash } =
+      rendered ??
+      (await renderGitHubIssue(beadsIssue, mapping, client, config, issues, pendingIds));
 
     switch (action.type) {
       case 'create': {
@@ -94,6 +201,7 @@ async function executeAction(
           body,
           labels,
           assignees,
+          type,
         });
 
         setMapping(
@@ -110,10 +218,11 @@ async function executeAction(
 
         // If the beads issue is already closed, close the GitHub issue too
         if (beadsIssue.status === 'closed') {
-          const closingComment = generateClosingComment(beadsIssue);
+          const closingComment = generateClosingComment(beadsIssue, config.templates, mapping);
           await client.closeIssue(created.number, closingComment);
           core.info(`Closed issue #${created.number} (beads status: closed)`);
         }
+        markIssueSynced(mapping, beadsIssue, labels, contentHash);
         break;
       }
 
@@ -125,20 +234,18 @@ async function executeAction(
           return null;
         }
 
+        const current = await client.getIssue(action.githubIssueNumber!);
         await client.updateIssue({
           issueNumber: action.githubIssueNumber!,
           title,
           body,
-          labels,
+          labels: mergeIssueLabels(current, labels, mapping, beadsIssue.id, config),
           assignees,
+          type,
         });
 
-        // Update mapping timestamp
-        const existingMapping = getMapping(mapping, beadsIssue.id);
-        if (existingMapping) {
-          existingMapping.beads_updated_at = beadsIssue.updated_at;
-          existingMapping.last_sync_at = new Date().toISOString();
-        }
+        // Update mapping timestamp and content hash
+        markIssueSynced(mapping, beadsIssue, labels, contentHash);
 
         core.info(
           `Updated issue #${action.githubIssueNumber}: ${beadsIssue.title}`
@@ -155,22 +262,20 @@ async function executeAction(
         }
 
         // Also update the body before closing
+        const current = await client.getIssue(action.githubIssueNumber!);
         await client.updateIssue({
           issueNumber: action.githubIssueNumber!,
           title,
           body,
-          labels,
+          labels: mergeIssueLabels(current, labels, mapping, beadsIssue.id, config),
+          type,
         });
 
-        const closingComment = generateClosingComment(beadsIssue);
+        const closingComment = generateClosingComment(beadsIssue, config.templates, mapping);
         await client.closeIssue(action.githubIssueNumber!, closingComment);
 
-        // Update mapping timestamp
-        const existingMapping = getMapping(mapping, beadsIssue.id);
-        if (existingMapping) {
-          existingMapping.beads_updated_at = beadsIssue.updated_at;
-          existingMapping.last_sync_at = new Date().toISOString();
-        }
+        // Update mapping timestamp and content hash
+        markIssueSynced(mapping, beadsIssue, labels, contentHash);
 
         core.info(
           `Closed issue #${action.githubIssueNumber}: ${beadsIssue.title}`
@@ -201,8 +306,9 @@ async function executeAction(
           issueNumber: action.githubIssueNumber!,
           title,
           body,
-          labels,
+          labels: mergeIssueLabels(existingIssue, labels, mapping, beadsIssue.id, config),
           assignees,
+          type,
         });
 
         // Create mapping
@@ -222,11 +328,15 @@ async function executeAction(
         );
 
         // If the beads issue is closed, close the GitHub issue too
-        if (beadsIssue.status === 'closed') {
-          const closingComment = generateClosingComment(beadsIssue);
+        if (beadsIssue.status === 'closed' && existingIssue.state !== 'closed') {
+          const closingComment = generateClosingComment(beadsIssue, config.templates, mapping);
           await client.closeIssue(action.githubIssueNumber!, closingComment);
           core.info(`Closed adopted issue #${action.githubIssueNumber} (beads status: closed)`);
+        } else if (beadsIssue.status !== 'closed' && existingIssue.state === 'closed') {
+          await client.reopenIssue(action.githubIssueNumber!);
+          core.info(`Reopened adopted issue #${action.githubIssueNumber} (beads status: ${beadsIssue.status})`);
         }
+        markIssueSynced(mapping, beadsIssue, labels, contentHash);
         break;
       }
 
@@ -238,15 +348,19 @@ async function executeAction(
           return null;
         }
 
+        const current = await client.getIssue(action.githubIssueNumber!);
         await client.reopenIssue(action.githubIssueNumber!);
         await client.updateIssue({
           issueNumber: action.githubIssueNumber!,
           title,
           body,
-          labels,
+          labels: mergeIssueLabels(current, labels, mapping, beadsIssue.id, config),
           assignees,
+          type,
         });
 
+        markIssueSynced(mapping, beadsIssue, labels, contentHash);
+
         core.info(
           `Reopened issue #${action.githubIssueNumber}: ${beadsIssue.title}`
         );
@@ -264,6 +378,121 @@ async function executeAction(
   }
 }
 
+/**
+ * Compute the changes a sync would apply, without applying them
+ * The content rendered for each beads issue is kept in `renderedIssues`.
+ */
+async function buildSyncPlan(
+  diff: DiffResult,
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig,
+  issues: BeadsIssue[],
+  renderedIssues: Map<string, RenderedIssue>
+): Promise<SyncPlan> {
+  const plan: SyncPlan = {
+    repository: `${config.owner}/${config.repo}`,
+    issues: [],
+    comments: config.syncComments ? planCommentChanges(diff) : [],
+  };
+
+  for (const action of diff.actions) {
+    const { beadsIssue, githubIssueNumber } = action;
+    const current = githubIssueNumber ? await client.getIssue(githubIssueNumber) : null;
+    const rendered = await renderGitHubIssue(beadsIssue, mapping, client, config, issues);
+    renderedIssues.set(beadsIssue.id, rendered);
+    plan.issues.push(
+      planIssueChange(
+        {
+          type: action.type,
+          beads_id: beadsIssue.id,
+          github_issue_number: githubIssueNumber,
+          reason: action.reason,
+        },
+        current,
+        {
+          ...rendered,
+          labels: mergeIssueLabels(current, rendered.labels, mapping, beadsIssue.id, config),
+          // Closing does not change the assignees
+          assignees: action.type === 'close' ? current?.assignees ?? [] : rendered.assignees,
+          state: beadsIssue.status === 'closed' ? 'closed' : 'open',
+        }
+      )
+    );
+  }
+
+  if (config.closeDeleted) {
+    for (const beadsId of diff.deletedIssueIds) {
+      const issueMapping = getMapping(mapping, beadsId);
+      if (!issueMapping || issueMapping.github_state === 'closed') {
+        continue;
+      }
+      const current = await client.getIssue(issueMapping.github_issue_number);
+      if (!current) {
+        continue;
+      }
+      plan.issues.push(
+        planIssueChange(
+          {
+            type: 'close-deleted',
+            beads_id: beadsId,
+            github_issue_number: current.number,
+            reason: 'Deleted from beads',
+          },
+          current,
+          {
+            title: current.title,
+            body: current.body ?? '',
+            labels: current.labels,
+            assignees: current.assignees ?? [],
+            state: 'closed',
+          }
+        )
+      );
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Delete the epic and beads ID labels no longer used by any issue
+ * Returns the orphaned labels, deleted unless in dry-run mode
+ */
+async function cleanupOrphanedLabels(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<string[]> {
+  const labels = await client.listLabels();
+  const orphaned = findOrphanedLabels(
+    labels.map((label) => label.name),
+    issues,
+    mapping,
+    config.labelPrefix
+  );
+
+  const deleted: string[] = [];
+  for (const name of orphaned) {
+    if (config.dryRun) {
+      core.info(`[DRY RUN] Would delete orphaned label: ${name}`);
+      deleted.push(name);
+      continue;
+    }
+
+    try {
+      await client.deleteLabel(name);
+      core.info(`Deleted orphaned label: ${name}`);
+      deleted.push(name);
+    } catch (error) {
+      core.warning(`Failed to delete label ${name}: ${error}`);
+    }
+  }
+
+  return deleted;
+}
+
 /**
  * Handle deleted beads issues by closing the corresponding GitHub issues
  */
@@ -281,7 +510,8 @@ async function handleDeletedIssues(
 
   for (const beadsId of deletedIds) {
     const issueMapping = getMapping(mapping, beadsId);
-    if (!issueMapping) {
+    // Issues already closed on GitHub were handled by a previous run
+    if (!issueMapping || issueMapping.github_state === 'closed') {
       continue;
     }
 
@@ -293,8 +523,9 @@ async function handleDeletedIssues(
     }
 
     try {
-      const comment = generateDeletionComment(beadsId);
+      const comment = generateDeletionComment(beadsId, config.templates, mapping);
       await client.closeIssue(issueMapping.github_issue_number, comment);
+      issueMapping.github_state = 'closed';
       core.info(
         `Closed #${issueMapping.github_issue_number} (deleted from beads: ${beadsId})`
       );
@@ -309,6 +540,103 @@ async function handleDeletedIssues(
   return closedCount;
 }
 
+/**
+ * Find the synced issues rendered before some issue they link to was created
+ * or adopted, whose body still shows the beads ID of that issue
+ *
+ * Links are the dependencies and, for epics, the children. `renderedWaves`
+ * and `mappedWaves` give the wave in which issues were rendered and mapped in
+ * this run; issues not rendered in this run were rendered before any of them.
+ */
+function findUnresolvedLinks(
+  candidates: BeadsIssue[],
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  renderedWaves: Map<string, number>,
+  mappedWaves: Map<string, number>
+): string[] {
+  const ids: string[] = [];
+
+  for (const issue of candidates) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!issueMapping) {
+      continue;
+    }
+
+    const children = getEpicChildren(issue, issues, mapping);
+    const linkedIds = [
+      ...(issue.dependencies ?? []).map((dep) => dep.id),
+      ...(children ?? []).map((child) => child.id),
+    ];
+    const renderedWave = renderedWaves.get(issue.id) ?? -1;
+    const unresolved = linkedIds.some((id) => {
+      const mappedWave = mappedWaves.get(id);
+      return id !== issue.id && mappedWave !== undefined && mappedWave >= renderedWave;
+    });
+
+    if (unresolved) {
+      ids.push(issue.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Rewrite the body of issues whose sync state changed after their body was
+ * rendered (e.g. new comment mappings), so the embedded state stays accurate
+ * The content hash is only updated once the body is rewritten. A failed
+ * refresh clears it, so the next run renders the issue again. Issues whose
+ * changes failed to sync in `unsyncedIds` keep the state of their last sync.
+ */
+async function refreshSyncState(
+  beadsIds: Set<string>,
+  unsyncedIds: Set<string>,
+  pendingIds: Set<string>,
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<void> {
+  for (const issue of issues) {
+    const issueMapping = getMapping(mapping, issue.id);
+    if (!beadsIds.has(issue.id) || !issueMapping) {
+      continue;
+    }
+
+    const unsynced = unsyncedIds.has(issue.id);
+    const context: IssueBodyContext = {
+      issues,
+      dependencyGraph: config.dependencyGraph,
+      // Same labels as the last render, so the body doesn't change with the render path
+      labels: issueMapping.synced_labels,
+      templates: config.templates,
+      pendingIds,
+      recordedState: unsynced
+        ? {
+            beads_updated_at: issueMapping.beads_updated_at,
+            content_hash: issueMapping.content_hash ?? '',
+          }
+        : undefined,
+    };
+    try {
+      await client.updateIssue({
+        issueNumber: issueMapping.github_issue_number,
+        body: generateIssueBody(issue, mapping, context),
+      });
+      if (!unsynced) {
+        issueMapping.content_hash = computeBodyContentHash(issue, mapping, context);
+      }
+    } catch (error) {
+      // An empty hash never matches the content
+      issueMapping.content_hash = '';
+      core.warning(
+        `Failed to refresh sync state of #${issueMapping.github_issue_number}: ${error}`
+      );
+    }
+  }
+}
+
 /**
  * Collect all epic labels needed for issues
  */
@@ -328,6 +656,41 @@ function collectEpicLabels(issues: BeadsIssue[], prefix: string): Set<string> {
   return epicIds;
 }
 
+/**
+ * Group sync actions in waves that can each run concurrently
+ *
+ * An issue linking to issues created in the same run is handled in a wave
+ * after them, so its links render with their GitHub issue numbers. Actions
+ * caught in a dependency cycle share a wave.
+ */
+export function groupActionsInWaves(actions: SyncAction[]): SyncAction[][] {
+  const waves: SyncAction[][] = [];
+  const pendingCreates = new Set(
+    actions.filter((action) => action.type === 'create').map((action) => action.beadsIssue.id)
+  );
+  let remaining = actions;
+
+  while (remaining.length > 0) {
+    let wave = remaining.filter(
+      (action) =>
+        !(action.beadsIssue.dependencies ?? []).some(
+          (dep) => dep.id !== action.beadsIssue.id && pendingCreates.has(dep.id)
+        )
+    );
+    if (wave.length === 0) {
+      wave = remaining;
+    }
+
+    waves.push(wave);
+    for (const action of wave) {
+      pendingCreates.delete(action.beadsIssue.id);
+    }
+    remaining = remaining.filter((action) => !wave.includes(action));
+  }
+
+  return waves;
+}
+
 /**
  * Main sync orchestrator
  */
@@ -335,7 +698,8 @@ export async function runSync(
   issues: BeadsIssue[],
   mapping: MappingFile,
   client: GitHubClient,
-  config: SyncConfig
+  config: SyncConfig,
+  startedAt: string = new Date().toISOString()
 ): Promise<SyncResult> {
   const result: SyncResult = {
     created: 0,
@@ -344,16 +708,38 @@ export async function runSync(
     reopened: 0,
     adopted: 0,
     commentsSynced: 0,
+    commentsUpdated: 0,
+    commentsDeleted: 0,
+    subIssuesLinked: 0,
+    subIssuesUnlinked: 0,
+    crossLinksAdded: 0,
+    crossLinksRemoved: 0,
+    projectItemsSynced: 0,
+    unmappedIssueTypes: [],
+    orphanedLabels: [],
+    budgetExhausted: false,
+    duplicates: [],
+    borderlineTitleMatches: [],
     errors: [],
   };
 
+  // Stop starting new work once the API call budget is used up. The mapping
+  // keeps what was synced, so the next run resumes with the remaining changes.
+  const withinBudget = (): boolean => {
+    if (!result.budgetExhausted && client.isBudgetExhausted()) {
+      result.budgetExhausted = true;
+      core.warning('API call budget exhausted, the remaining changes are left to the next run');
+    }
+    return !result.budgetExhausted;
+  };
+
   // Filter issues based on config
   const filteredIssues = filterIssues(issues, config);
   core.info(`Processing ${filteredIssues.length} of ${issues.length} issues`);
 
   // Ensure required labels exist
   core.info('Ensuring required labels exist...');
-  const requiredLabels = getAllRequiredLabels(config.labelPrefix);
+  const requiredLabels = getAllRequiredLabels(config.labelPrefix, config.labelScheme);
 
   // Also create epic labels for any parent-child dependencies
   const epicIds = collectEpicLabels(filteredIssues, config.labelPrefix);
@@ -365,66 +751,211 @@ export async function runSync(
     await client.ensureLabels(requiredLabels);
   }
 
+  if (config.issueTypes) {
+    result.unmappedIssueTypes = findUnmappedIssueTypes(
+      filteredIssues,
+      config.issueTypeMapping,
+      await client.listIssueTypes()
+    );
+    if (result.unmappedIssueTypes.length > 0) {
+      core.warning(
+        `No native issue type for beads types ${result.unmappedIssueTypes.join(', ')}, ` +
+          'using type labels instead'
+      );
+    }
+  }
+
+  // Close GitHub issues claiming the beads ID of another issue
+  resolveAdoptedDuplicates(issues, mapping);
+  const hasDuplicates = Object.values(mapping.mappings).some((entry) => entry.duplicates);
+  if (hasDuplicates && withinBudget()) {
+    result.duplicates = await closeDuplicates(mapping, client, config);
+  }
+
+  // Match new issues to open unsynced GitHub issues by title
+  let titleAdoptions: TitleMatch[] = [];
+  if (config.adoptByTitle && withinBudget()) {
+    const titleMatches = await findTitleMatches(filteredIssues, mapping, client, config);
+    titleAdoptions = titleMatches.adopted;
+    result.borderlineTitleMatches = titleMatches.borderline;
+  }
+
   // Compute diff
-  const diff = computeDiff(filteredIssues, mapping);
+  const renderedIssues = new Map<string, RenderedIssue>();
+  const diff = computeDiff(filteredIssues, mapping, issues, titleAdoptions);
   core.info(
     `Diff: ${diff.actions.length} actions, ` +
     `${diff.commentActions.length} comments, ` +
     `${diff.deletedIssueIds.length} deletions`
   );
 
-  // Execute actions
-  for (const action of diff.actions) {
-    const error = await executeAction(action, mapping, client, config);
-
-    if (error) {
-      result.errors.push(error);
-      continue;
+  if (config.dryRun) {
+    result.plan = await buildSyncPlan(diff, mapping, client, config, issues, renderedIssues);
+    if (result.borderlineTitleMatches.length > 0) {
+      result.plan.title_matches = result.borderlineTitleMatches;
     }
+  }
 
-    if (!config.dryRun) {
-      switch (action.type) {
-        case 'create':
-          result.created++;
-          break;
-        case 'update':
-          result.updated++;
-          break;
-        case 'close':
-          result.closed++;
-          break;
-        case 'reopen':
-          result.reopened++;
-          break;
-        case 'adopt':
-          result.adopted++;
-          break;
+  // Execute actions, concurrently within each wave
+  const pendingIds = new Set(
+    diff.actions
+      .filter((action) => action.type === 'create' || action.type === 'adopt')
+      .map((action) => action.beadsIssue.id)
+  );
+  const syncedIds = new Set<string>();
+  const renderedWaves = new Map<string, number>();
+  const mappedWaves = new Map<string, number>();
+  for (const [waveIndex, wave] of groupActionsInWaves(diff.actions).entries()) {
+    await runWithConcurrency(wave, config.concurrency, async (action) => {
+      if (!withinBudget()) {
+        return;
       }
+      const error = await executeAction(
+        action,
+        mapping,
+        client,
+        config,
+        issues,
+        pendingIds,
+        renderedIssues.get(action.beadsIssue.id)
+      );
+
+      if (error) {
+        result.errors.push(error);
+        return;
+      }
+      syncedIds.add(action.beadsIssue.id);
+      renderedWaves.set(action.beadsIssue.id, waveIndex);
+      if (action.type === 'create' || action.type === 'adopt') {
+        mappedWaves.set(action.beadsIssue.id, waveIndex);
+      }
+
+      if (!config.dryRun) {
+        switch (action.type) {
+          case 'create':
+            result.created++;
+            break;
+          case 'update':
+            result.updated++;
+            break;
+          case 'close':
+            result.closed++;
+            break;
+          case 'reopen':
+            result.reopened++;
+            break;
+          case 'adopt':
+            result.adopted++;
+            break;
+        }
+      }
+    });
+  }
+
+  // Issues whose body is outdated after the actions: their state block or
+  // their links to issues created in this run
+  const staleStateIds = new Set<string>();
+  // Issues whose action failed or was skipped, their changes are still to sync
+  const failedIds = new Set(
+    diff.actions.map((action) => action.beadsIssue.id).filter((id) => !syncedIds.has(id))
+  );
+
+  // Second pass over the issues rendered before the issues they link to were
+  // created, so the links show GitHub issue numbers instead of beads IDs
+  if (!config.dryRun && mappedWaves.size > 0) {
+    const relinkIds = findUnresolvedLinks(
+      filteredIssues.filter((issue) => !failedIds.has(issue.id)),
+      issues,
+      mapping,
+      renderedWaves,
+      mappedWaves
+    );
+    if (relinkIds.length > 0) {
+      core.info(`Re-rendering ${relinkIds.length} issue(s) linking to newly created issues`);
     }
+    relinkIds.forEach((id) => staleStateIds.add(id));
   }
 
   // Handle deleted issues
-  const deletionsClosed = await handleDeletedIssues(
-    diff.deletedIssueIds,
-    mapping,
-    client,
-    config
-  );
-  result.closed += deletionsClosed;
+  if (withinBudget()) {
+    result.closed += await handleDeletedIssues(diff.deletedIssueIds, mapping, client, config);
+  }
 
   // Sync comments if enabled
-  if (config.syncComments) {
+  if (config.syncComments && withinBudget()) {
     result.commentsSynced = await syncComments(
       diff.commentActions,
       mapping,
       client,
+      config.dryRun,
+      config.concurrency,
+      config.templates
+    );
+
+    const commentChanges = await syncCommentChanges(
+      diff.commentUpdateActions,
+      diff.commentDeleteActions,
+      mapping,
+      client,
+      config.dryRun,
+      config.concurrency,
+      config.templates
+    );
+    result.commentsUpdated = commentChanges.updated;
+    result.commentsDeleted = commentChanges.deleted;
+
+    for (const action of [
+      ...diff.commentActions,
+      ...diff.commentUpdateActions,
+      ...diff.commentDeleteActions,
+    ]) {
+      staleStateIds.add(action.beadsIssueId);
+    }
+  }
+
+  // Link children to their epic once all issues exist on GitHub
+  if (config.subIssues && withinBudget()) {
+    const subIssues = await syncSubIssues(filteredIssues, mapping, client, config.dryRun);
+    result.subIssuesLinked = subIssues.linked;
+    result.subIssuesUnlinked = subIssues.unlinked;
+    subIssues.changedIds.forEach((id) => staleStateIds.add(id));
+  }
+
+  if (config.crossLinks !== 'off' && withinBudget()) {
+    const crossLinks = await syncCrossLinks(
+      filteredIssues,
+      mapping,
+      client,
+      config.crossLinks,
       config.dryRun
     );
+    result.crossLinksAdded = crossLinks.added;
+    result.crossLinksRemoved = crossLinks.removed;
+    crossLinks.changedIds.forEach((id) => staleStateIds.add(id));
+  }
+
+  if (config.projectUrl && withinBudget()) {
+    const project = await syncProjectItems(filteredIssues, syncedIds, mapping, client, config);
+    result.projectItemsSynced = project.synced;
+    project.addedIds.forEach((id) => staleStateIds.add(id));
   }
 
-  // Update sync metadata
+  if (config.cleanupLabels && withinBudget()) {
+    result.orphanedLabels = await cleanupOrphanedLabels(issues, mapping, client, config);
+  }
+
+  // Comment mappings, parent links, cross-links and project items are persisted in the issue body state block
   if (!config.dryRun) {
-    updateLastSyncTime(mapping);
+    await refreshSyncState(
+      staleStateIds,
+      failedIds,
+      pendingIds,
+      issues,
+      mapping,
+      client,
+      config
+    );
+    updateLastSyncTime(mapping, startedAt);
   }
 
   return result;
@@ -1,19 +1,171 @@
-import { BeadsIssue, MappingFile } from './types';
+import {
+  BEADS_ID_PATTERN,
+  BeadsIssue,
+  BeadsStatus,
+  DependencyType,
+  IssueSyncState,
+  MappingFile,
+  SyncTemplates,
+} from './types';
 import { getMapping } from './mapper';
+import { computeContentHash, renderSyncState } from './state';
+import { getParentId } from './subissues';
 
-const BEADS_SYNC_MARKER_PATTERN = /<!-- beads-sync:(bd-[a-zA-Z0-9]+) -->/;
+const BEADS_SYNC_MARKER_PATTERN = new RegExp(`<!-- beads-sync:(${BEADS_ID_PATTERN}) -->`);
+const BEADS_SYNC_COMMENT_MARKER = '<!-- beads-sync-comment -->';
+// Footer of comments posted before the comment marker was introduced
+const LEGACY_COMMENT_FOOTER_PATTERN = /^\*(Synced from|Previously tracked as) beads issue `[^`]+`\*$/m;
 
 /**
- * Generate the GitHub issue body from a beads issue
+ * Other beads issues rendered in an issue body
  */
-export function generateIssueBody(
+export interface IssueBodyContext {
+  /** All parsed beads issues, used to list the children of epics */
+  issues: BeadsIssue[];
+  /** Render a Mermaid graph of the blocking dependencies between epic children */
+  dependencyGraph?: boolean;
+  /** GitHub labels applied by this sync, recorded in the sync state */
+  labels?: string[];
+  /** User templates, replacing the built-in rendering */
+  templates?: SyncTemplates;
+  /** Beads IDs of the issues created or adopted in this run, linked by number once mapped */
+  pendingIds?: Set<string>;
+  /** State of the last successful sync, recorded instead of the current one */
+  recordedState?: Pick<IssueSyncState, 'beads_updated_at' | 'content_hash'>;
+}
+
+/**
+ * Child of an epic, as rendered in the epic body
+ */
+export interface EpicChild {
+  id: string;
+  title: string;
+  status: BeadsStatus;
+  github_issue_number?: number;
+  /** Beads IDs of the issues blocking this child */
+  blocked_by: string[];
+}
+
+/**
+ * Get the children of an epic
+ * Returns undefined for other issues and for epics without children
+ */
+export function getEpicChildren(
   issue: BeadsIssue,
+  issues: BeadsIssue[],
   mapping: MappingFile
-): string {
-  const sections: string[] = [];
+): EpicChild[] | undefined {
+  if (issue.issue_type !== 'epic') {
+    return undefined;
+  }
 
-  // Marker comment for identification
-  sections.push(`<!-- beads-sync:${issue.id} -->`);
+  const children = issues
+    .filter((child) => getParentId(child) === issue.id)
+    .map((child) => ({
+      id: child.id,
+      title: child.title,
+      status: child.status,
+      github_issue_number: getMapping(mapping, child.id)?.github_issue_number,
+      blocked_by: (child.dependencies ?? [])
+        .filter((dep) => dep.type === 'blocks' || dep.type === 'blocked-by')
+        .map((dep) => dep.id),
+    }));
+
+  return children.length > 0 ? children : undefined;
+}
+
+/**
+ * Node ID of an issue in a Mermaid graph
+ */
+function toMermaidId(beadsId: string): string {
+  return beadsId.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+/**
+ * Render the blocking dependencies between epic children as a Mermaid graph
+ * Returns null if the children do not block each other
+ */
+function renderDependencyGraph(children: EpicChild[]): string | null {
+  const childIds = new Set(children.map((child) => child.id));
+  const edges = children.flatMap((child) =>
+    child.blocked_by
+      .filter((blockerId) => childIds.has(blockerId))
+      .map((blockerId) => `  ${toMermaidId(blockerId)} --> ${toMermaidId(child.id)}`)
+  );
+  if (edges.length === 0) {
+    return null;
+  }
+
+  const nodes = children.map((child) => {
+    const ref = child.github_issue_number !== undefined ? `#${child.github_issue_number}` : child.id;
+    const label = `${ref} ${child.title}`.replace(/"/g, '#quot;');
+    const style = child.status === 'closed' ? ':::closed' : '';
+    return `  ${toMermaidId(child.id)}["${label}"]${style}`;
+  });
+
+  return [
+    '```mermaid',
+    'graph TD',
+    '  classDef closed fill:#d3d3d3,color:#555',
+    ...nodes,
+    ...edges,
+    '```',
+  ].join('\n');
+}
+
+/**
+ * Render the Children section of an epic
+ */
+function renderChildrenSection(children: EpicChild[], dependencyGraph: boolean): string {
+  const checklist = children
+    .map((child) => {
+      const checked = child.status === 'closed' ? 'x' : ' ';
+      const ref = child.github_issue_number !== undefined
+        ? `#${child.github_issue_number}`
+        : `\`${child.id}\``;
+      return `- [${checked}] ${ref} ${child.title}`;
+    })
+    .join('\n');
+
+  const parts = ['### Children', checklist];
+  const graph = dependencyGraph ? renderDependencyGraph(children) : null;
+  if (graph) {
+    parts.push(graph);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Helpers available to user templates
+ */
+export function getTemplateHelpers(
+  mapping?: MappingFile
+): Record<string, (...args: unknown[]) => unknown> {
+  return {
+    // GitHub reference of a beads issue, or its ID when not synced
+    ref: (beadsId) => {
+      const issueNumber = mapping ? getMapping(mapping, String(beadsId))?.github_issue_number : undefined;
+      return issueNumber !== undefined ? `#${issueNumber}` : `\`${beadsId}\``;
+    },
+    date: (value) => (typeof value === 'string' ? value.slice(0, 10) : ''),
+    eq: (a, b) => a === b,
+    // The separator is optional, Handlebars passes its options as last argument
+    join: (list, separator) =>
+      Array.isArray(list) ? list.join(typeof separator === 'string' ? separator : ', ') : '',
+    json: (value) => JSON.stringify(value),
+  };
+}
+
+/**
+ * Render the built-in sections of an issue body
+ */
+function renderBuiltinSections(
+  issue: BeadsIssue,
+  mapping: MappingFile,
+  children: EpicChild[] | undefined,
+  context: IssueBodyContext
+): string[] {
+  const sections: string[] = [];
 
   // Warning banner
   sections.push(`> [!CAUTION]
@@ -58,6 +210,11 @@ ${issue.notes}
 </details>`);
   }
 
+  // Children of epics
+  if (children) {
+    sections.push(renderChildrenSection(children, context.dependencyGraph ?? false));
+  }
+
   // Metadata table
   const metadataRows: string[] = [];
   metadataRows.push(`| **Beads ID** | \`${issue.id}\` |`);
@@ -96,9 +253,85 @@ ${issue.notes}
 ${metadataRows.join('\n')}`);
   }
 
+  return sections;
+}
+
+/**
+ * Generate the GitHub issue body from a beads issue
+ * A user template replaces the built-in sections, between the marker comment
+ * and the sync state that the syncer always adds.
+ */
+export function generateIssueBody(
+  issue: BeadsIssue,
+  mapping: MappingFile,
+  context: IssueBodyContext = { issues: [] }
+): string {
+  const children = getEpicChildren(issue, context.issues, mapping);
+
+  // Marker comment for identification
+  const sections = [`<!-- beads-sync:${issue.id} -->`];
+
+  const template = context.templates?.issueBody;
+  if (template) {
+    const rendered = template(
+      {
+        ...issue,
+        issue,
+        github_issue_number: getMapping(mapping, issue.id)?.github_issue_number,
+        dependencies: (issue.dependencies ?? []).map((dep) => ({
+          ...dep,
+          github_issue_number: getMapping(mapping, dep.id)?.github_issue_number,
+        })),
+        children,
+        githubLabels: context.labels ?? [],
+      },
+      getTemplateHelpers(mapping)
+    ).trim();
+    if (rendered) {
+      sections.push(rendered);
+    }
+  } else {
+    sections.push(...renderBuiltinSections(issue, mapping, children, context));
+  }
+
+  // Hidden sync state, read back by the mapper on the next run
+  sections.push(
+    renderSyncState({
+      beads_updated_at: context.recordedState?.beads_updated_at ?? issue.updated_at,
+      content_hash:
+        context.recordedState?.content_hash ?? computeBodyContentHash(issue, mapping, context),
+      comments: getMapping(mapping, issue.id)?.comments ?? {},
+      parent_issue_number: getMapping(mapping, issue.id)?.parent_issue_number,
+      project_item: getMapping(mapping, issue.id)?.project_item,
+      synced_labels: context.labels ?? getMapping(mapping, issue.id)?.synced_labels,
+      cross_links: getMapping(mapping, issue.id)?.cross_links,
+    })
+  );
+
   return sections.join('\n\n');
 }
 
+/**
+ * Compute the content hash recorded in the sync state of an issue body
+ * While the body links to pending issues not mapped yet, the hash is empty so
+ * the issue is rendered again until the links show their GitHub issue numbers.
+ */
+export function computeBodyContentHash(
+  issue: BeadsIssue,
+  mapping: MappingFile,
+  context: IssueBodyContext
+): string {
+  const children = getEpicChildren(issue, context.issues, mapping);
+  const linkedIds = [
+    ...(issue.dependencies ?? []).map((dep) => dep.id),
+    ...(children ?? []).map((child) => child.id),
+  ];
+  const unresolved = linkedIds.some(
+    (id) => id !== issue.id && context.pendingIds?.has(id) && !getMapping(mapping, id)
+  );
+  return unresolved ? '' : computeContentHash(issue, children);
+}
+
 /**
  * Extract the beads ID from a GitHub issue body
  * Returns null if no beads marker is found
@@ -110,8 +343,18 @@ export function extractBeadsIdFromBody(body: string): string | null {
 
 /**
  * Generate a closing comment for an issue
+ * `mapping` resolves the `ref` helper of user templates to GitHub issue numbers.
  */
-export function generateClosingComment(issue: BeadsIssue): string {
+export function generateClosingComment(
+  issue: BeadsIssue,
+  templates?: SyncTemplates,
+  mapping?: MappingFile
+): string {
+  if (templates?.closingComment) {
+    const rendered = templates.closingComment({ ...issue, issue }, getTemplateHelpers(mapping));
+    return `${rendered.trim()}\n${BEADS_SYNC_COMMENT_MARKER}`;
+  }
+
   const parts = ['This issue was closed in beads.'];
 
   if (issue.close_reason) {
@@ -119,6 +362,7 @@ export function generateClosingComment(issue: BeadsIssue): string {
   }
 
   parts.push(`\n\n---\n*Synced from beads issue \`${issue.id}\`*`);
+  parts.push(`\n${BEADS_SYNC_COMMENT_MARKER}`);
 
   return parts.join('');
 }
@@ -126,8 +370,38 @@ export function generateClosingComment(issue: BeadsIssue): string {
 /**
  * Generate a deletion comment for an issue removed from beads
  */
-export function generateDeletionComment(beadsId: string): string {
-  return `This issue was deleted from beads tracking.\n\n---\n*Previously tracked as beads issue \`${beadsId}\`*`;
+export function generateDeletionComment(
+  beadsId: string,
+  templates?: SyncTemplates,
+  mapping?: MappingFile
+): string {
+  if (templates?.deletionComment) {
+    const rendered = templates.deletionComment({ id: beadsId }, getTemplateHelpers(mapping));
+    return `${rendered.trim()}\n${BEADS_SYNC_COMMENT_MARKER}`;
+  }
+  return `This issue was deleted from beads tracking.\n\n---\n*Previously tracked as beads issue \`${beadsId}\`*\n${BEADS_SYNC_COMMENT_MARKER}`;
+}
+
+/**
+ * Generate the comment closing a GitHub issue claiming the beads ID of another issue
+ * GitHub recognizes the "Duplicate of #N" phrase and marks the issue as duplicate.
+ */
+export function generateDuplicateComment(beadsId: string, canonicalNumber: number): string {
+  return `Duplicate of #${canonicalNumber}\n\nBoth issues claim beads issue \`${beadsId}\`, this one is no longer synced.\n\n---\n*Previously tracked as beads issue \`${beadsId}\`*\n${BEADS_SYNC_COMMENT_MARKER}`;
+}
+
+/**
+ * Generate the cross-reference comment linking an issue to a related issue
+ * Mentioning the related issue shows the link in the timeline of both issues.
+ */
+export function generateCrossLinkComment(
+  beadsId: string,
+  type: DependencyType,
+  targetId: string,
+  targetNumber: number
+): string {
+  const relation = type === 'relates-to' ? 'Related to' : 'Blocked by';
+  return `${relation} #${targetNumber} (\`${targetId}\`)\n\n---\n*Synced from beads issue \`${beadsId}\`*\n${BEADS_SYNC_COMMENT_MARKER}`;
 }
 
 /**
@@ -135,13 +409,34 @@ export function generateDeletionComment(beadsId: string): string {
  */
 export function formatBeadsComment(
   comment: { author: string; created_at: string; body: string },
-  beadsIssueId: string
+  beadsIssueId: string,
+  templates?: SyncTemplates,
+  mapping?: MappingFile
 ): string {
+  if (templates?.comment) {
+    const rendered = templates.comment(
+      { ...comment, issue_id: beadsIssueId },
+      getTemplateHelpers(mapping)
+    );
+    return `${rendered.trim()}\n${BEADS_SYNC_COMMENT_MARKER}`;
+  }
+
   const timestamp = new Date(comment.created_at).toISOString();
   return `**${comment.author}** commented on ${timestamp}:
 
 ${comment.body}
 
 ---
-*Synced from beads issue \`${beadsIssueId}\`*`;
+*Synced from beads issue \`${beadsIssueId}\`*
+${BEADS_SYNC_COMMENT_MARKER}`;
+}
+
+/**
+ * Check whether a GitHub comment was posted by the syncer
+ */
+export function isSyncerComment(body: string): boolean {
+  return (
+    body.includes(BEADS_SYNC_COMMENT_MARKER) ||
+    LEGACY_COMMENT_FOOTER_PATTERN.test(body)
+  );
 }
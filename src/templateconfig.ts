@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Handlebars from 'handlebars';
+import { SyncTemplates, TemplateRenderer } from './types';
+
+/**
+ * File of each template in the `template-dir` directory
+ */
+const TEMPLATE_FILES: Record<keyof SyncTemplates, string> = {
+  issueBody: 'issue-body.md',
+  closingComment: 'closing-comment.md',
+  deletionComment: 'deletion-comment.md',
+  comment: 'comment.md',
+};
+
+/**
+ * Compile a Handlebars template
+ * Values are inserted as is, since the output is Markdown rather than HTML.
+ */
+export function compileTemplate(source: string, name: string = 'template'): TemplateRenderer {
+  try {
+    // Compilation is lazy, parse now to report syntax errors when loading
+    Handlebars.parse(source);
+  } catch (error) {
+    throw new Error(`Invalid template ${name}: ${(error as Error).message}`);
+  }
+
+  const template = Handlebars.compile(source, { noEscape: true });
+  return (context, helpers) => {
+    try {
+      return template(context, { helpers });
+    } catch (error) {
+      throw new Error(`Failed to render template ${name}: ${(error as Error).message}`);
+    }
+  };
+}
+
+/**
+ * Load the templates of the `template-dir` directory
+ * Templates missing from the directory keep the built-in rendering.
+ * Returns undefined when no directory is configured.
+ */
+export function loadTemplates(dir: string): SyncTemplates | undefined {
+  if (!dir) {
+    return undefined;
+  }
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch (error) {
+    throw new Error(`Cannot read template dir ${dir}: ${(error as Error).message}`);
+  }
+
+  const templates: SyncTemplates = {};
+  for (const [key, file] of Object.entries(TEMPLATE_FILES) as [keyof SyncTemplates, string][]) {
+    if (files.includes(file)) {
+      const source = path.join(dir, file);
+      templates[key] = compileTemplate(fs.readFileSync(source, 'utf-8'), source);
+    }
+  }
+
+  if (Object.keys(templates).length === 0) {
+    throw new Error(
+      `No template found in ${dir}, expected one of ${Object.values(TEMPLATE_FILES).join(', ')}`
+    );
+  }
+  return templates;
+}
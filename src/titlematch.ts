@@ -0,0 +1,294 @@
+import * as core from '@actions/core';
+import { BeadsIssue, MappingFile, SyncConfig, TitleMatch } from './types';
+import { GitHubClient, GitHubIssue } from './github';
+import { getMapping, stripBeadsIdFromTitle } from './mapper';
+import { getSyncMarkerLabel } from './labels';
+import { parseExternalRef } from './diff';
+
+/**
+ * Matches scoring this far below the threshold are reported as borderline
+ */
+const BORDERLINE_MARGIN = 0.2;
+
+/**
+ * Candidates scoring this close to each other are too ambiguous to adopt
+ */
+const AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Issues created this many days apart get no date proximity bonus
+ */
+const DATE_WINDOW_DAYS = 365;
+
+/**
+ * Possible match between a beads issue and a GitHub issue
+ */
+interface TitleCandidate {
+  beadsIssue: BeadsIssue;
+  githubIssue: GitHubIssue;
+  score: number;
+}
+
+/**
+ * Title matches for the new beads issues
+ */
+export interface TitleMatchResult {
+  /** Matches at or above the threshold, adopted by the sync */
+  adopted: TitleMatch[];
+  /** Matches below the threshold or ambiguous, left for review */
+  borderline: TitleMatch[];
+}
+
+/**
+ * Normalize a title for comparison
+ * Drops the `[beads-id]` prefix, case, punctuation and extra whitespace.
+ */
+export function normalizeTitle(title: string): string {
+  return stripBeadsIdFromTitle(title)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Get the character bigrams of a string, with their number of occurrences
+ */
+function getBigrams(value: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * Title prepared for comparison, computed once per issue
+ */
+interface ComparableTitle {
+  normalized: string;
+  bigrams: Map<string, number>;
+  bigramCount: number;
+}
+
+/**
+ * Prepare a title for comparison
+ */
+function toComparableTitle(title: string): ComparableTitle {
+  const normalized = normalizeTitle(title);
+  const bigrams = getBigrams(normalized);
+  return { normalized, bigrams, bigramCount: Math.max(0, normalized.length - 1) };
+}
+
+/**
+ * Dice coefficient on character bigrams of two prepared titles
+ */
+function compareTitles(left: ComparableTitle, right: ComparableTitle): number {
+  if (left.normalized === right.normalized) {
+    return left.normalized ? 1 : 0;
+  }
+  const total = left.bigramCount + right.bigramCount;
+  if (total === 0) {
+    return 0;
+  }
+
+  // Walk the smaller set of bigrams
+  const [small, large] =
+    left.bigrams.size <= right.bigrams.size ? [left, right] : [right, left];
+  let common = 0;
+  for (const [bigram, count] of small.bigrams) {
+    common += Math.min(count, large.bigrams.get(bigram) ?? 0);
+  }
+  return (2 * common) / total;
+}
+
+/**
+ * Similarity of two titles between 0 and 1 (Dice coefficient on character bigrams)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  return compareTitles(toComparableTitle(a), toComparableTitle(b));
+}
+
+/**
+ * Proximity of two creation dates between 0 and 1, 0 when unknown
+ */
+function dateProximity(a: string, b?: string): number {
+  if (!b) {
+    return 0;
+  }
+  const days = Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+  return isNaN(days) ? 0 : Math.max(0, 1 - days / DATE_WINDOW_DAYS);
+}
+
+/**
+ * Combine the title similarity and the date proximity of a match
+ * The title similarity weighs most, issues created around the same time
+ * get a small bonus.
+ */
+function combineScore(similarity: number, proximity: number): number {
+  return Math.round((0.9 * similarity + 0.1 * proximity) * 100) / 100;
+}
+
+/**
+ * Score a match between a beads issue and a GitHub issue
+ */
+export function scoreTitleMatch(beadsIssue: BeadsIssue, githubIssue: GitHubIssue): number {
+  return combineScore(
+    titleSimilarity(beadsIssue.title, githubIssue.title),
+    dateProximity(beadsIssue.created_at, githubIssue.created_at)
+  );
+}
+
+/**
+ * Match beads issues to GitHub issues by title
+ *
+ * Each issue is matched at most once, best scores first. Matches at or above
+ * the threshold are adopted, unless another candidate scores almost as well,
+ * in which case the match is too ambiguous and only reported as borderline,
+ * like matches scoring a little below the threshold. GitHub issues with the
+ * same normalized title as a beads issue are its only candidates.
+ */
+export function matchIssuesByTitle(
+  beadsIssues: BeadsIssue[],
+  githubIssues: GitHubIssue[],
+  threshold: number
+): TitleMatchResult {
+  const result: TitleMatchResult = { adopted: [], borderline: [] };
+  const minimum = threshold - BORDERLINE_MARGIN;
+
+  // Titles are prepared once, and indexed to find exact matches directly
+  const githubTitles = githubIssues.map((issue) => toComparableTitle(issue.title));
+  const byNormalizedTitle = new Map<string, number[]>();
+  githubTitles.forEach((title, index) => {
+    const indexes = byNormalizedTitle.get(title.normalized) ?? [];
+    byNormalizedTitle.set(title.normalized, [...indexes, index]);
+  });
+
+  const candidates: TitleCandidate[] = [];
+  for (const beadsIssue of beadsIssues) {
+    const beadsTitle = toComparableTitle(beadsIssue.title);
+    const addCandidate = (index: number, similarity: number) => {
+      const githubIssue = githubIssues[index];
+      const proximity = dateProximity(beadsIssue.created_at, githubIssue.created_at);
+      const score = combineScore(similarity, proximity);
+      if (score >= minimum) {
+        candidates.push({ beadsIssue, githubIssue, score });
+      }
+    };
+
+    const exact = beadsTitle.normalized ? byNormalizedTitle.get(beadsTitle.normalized) : undefined;
+    if (exact) {
+      exact.forEach((index) => addCandidate(index, 1));
+      continue;
+    }
+    githubTitles.forEach((title, index) => {
+      // Skip titles whose length difference alone keeps them under the minimum
+      const total = beadsTitle.bigramCount + title.bigramCount;
+      const bestSimilarity =
+        total > 0 ? (2 * Math.min(beadsTitle.bigramCount, title.bigramCount)) / total : 0;
+      if (combineScore(bestSimilarity, 1) >= minimum) {
+        addCandidate(index, compareTitles(beadsTitle, title));
+      }
+    });
+  }
+  candidates.sort(
+    (a, b) => b.score - a.score || a.githubIssue.number - b.githubIssue.number
+  );
+
+  // Best competing score of each issue, the candidates being sorted
+  const bestByBeadsId = new Map<string, TitleCandidate[]>();
+  const bestByNumber = new Map<number, TitleCandidate[]>();
+  for (const candidate of candidates) {
+    const byBeadsId = bestByBeadsId.get(candidate.beadsIssue.id) ?? [];
+    if (byBeadsId.length < 2) {
+      bestByBeadsId.set(candidate.beadsIssue.id, [...byBeadsId, candidate]);
+    }
+    const byNumber = bestByNumber.get(candidate.githubIssue.number) ?? [];
+    if (byNumber.length < 2) {
+      bestByNumber.set(candidate.githubIssue.number, [...byNumber, candidate]);
+    }
+  }
+  const competingScore = (candidate: TitleCandidate): number =>
+    Math.max(
+      ...[
+        ...(bestByBeadsId.get(candidate.beadsIssue.id) ?? []),
+        ...(bestByNumber.get(candidate.githubIssue.number) ?? []),
+      ]
+        .filter((other) => other !== candidate)
+        .map((other) => other.score),
+      0
+    );
+
+  const matchedBeadsIds = new Set<string>();
+  const matchedNumbers = new Set<number>();
+  for (const candidate of candidates) {
+    const { beadsIssue, githubIssue, score } = candidate;
+    if (matchedBeadsIds.has(beadsIssue.id) || matchedNumbers.has(githubIssue.number)) {
+      continue;
+    }
+    matchedBeadsIds.add(beadsIssue.id);
+    matchedNumbers.add(githubIssue.number);
+
+    const match: TitleMatch = {
+      beads_id: beadsIssue.id,
+      github_issue_number: githubIssue.number,
+      github_title: githubIssue.title,
+      score,
+    };
+    if (score >= threshold && competingScore(candidate) < score - AMBIGUITY_MARGIN) {
+      result.adopted.push(match);
+    } else {
+      result.borderline.push(match);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find open unsynced GitHub issues to adopt for the new beads issues
+ *
+ * Only beads issues without a mapping or an external_ref are matched, against
+ * the open GitHub issues not already synced or referenced.
+ */
+export async function findTitleMatches(
+  issues: BeadsIssue[],
+  mapping: MappingFile,
+  client: GitHubClient,
+  config: SyncConfig
+): Promise<TitleMatchResult> {
+  const claimedNumbers = new Set<number>();
+  for (const entry of Object.values(mapping.mappings)) {
+    claimedNumbers.add(entry.github_issue_number);
+    for (const duplicate of entry.duplicates ?? []) {
+      claimedNumbers.add(duplicate.github_issue_number);
+    }
+  }
+
+  const beadsIssues: BeadsIssue[] = [];
+  for (const issue of issues) {
+    const ref = issue.external_ref ? parseExternalRef(issue.external_ref) : null;
+    if (ref !== null) {
+      claimedNumbers.add(ref);
+    } else if (!getMapping(mapping, issue.id)) {
+      beadsIssues.push(issue);
+    }
+  }
+  if (beadsIssues.length === 0) {
+    return { adopted: [], borderline: [] };
+  }
+
+  const syncMarker = getSyncMarkerLabel(config.labelPrefix, config.labelScheme);
+  const githubIssues = (await client.listOpenIssues()).filter(
+    (issue) => !issue.labels.includes(syncMarker) && !claimedNumbers.has(issue.number)
+  );
+
+  const result = matchIssuesByTitle(beadsIssues, githubIssues, config.adoptThreshold);
+  for (const match of result.borderline) {
+    core.info(
+      `Possible title match not adopted: ${match.beads_id} and #${match.github_issue_number} ` +
+        `(score ${match.score})`
+    );
+  }
+  return result;
+}
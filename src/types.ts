@@ -65,6 +65,7 @@ export interface BeadsIssue {
  */
 export interface CommentMapping {
   github_comment_id: number;
+  body_hash?: string;
 }
 
 /**
@@ -75,10 +76,56 @@ export interface IssueMapping {
   github_issue_id: number;
   last_sync_at: string;
   beads_updated_at: string;
+  content_hash?: string;
+  github_state?: 'open' | 'closed';
+  /** GitHub issue this issue is linked to as sub-issue */
+  parent_issue_number?: number;
+  project_item?: ProjectItemMapping;
+  /** Labels applied by the last sync, removed again when no longer wanted */
+  synced_labels?: string[];
+  /** Cross-links to related issues, keyed by `type:beadsId` */
+  cross_links?: Record<string, CrossLinkMapping>;
+  /** Other GitHub issues claiming the same beads ID, to be closed as duplicates */
+  duplicates?: IssueMapping[];
   adopted_from_external_ref: boolean;
   comments: Record<string, CommentMapping>;
 }
 
+/**
+ * Sync state embedded as a hidden block in each GitHub issue body
+ */
+export interface IssueSyncState {
+  beads_updated_at: string;
+  content_hash: string;
+  comments: Record<string, CommentMapping>;
+  parent_issue_number?: number;
+  project_item?: ProjectItemMapping;
+  synced_labels?: string[];
+  cross_links?: Record<string, CrossLinkMapping>;
+}
+
+/**
+ * Cross-link from a synced issue to a related issue
+ * Either a cross-reference comment or a native "blocked by" relationship
+ */
+export interface CrossLinkMapping {
+  github_comment_id?: number;
+  blocked_by_issue_id?: number;
+}
+
+/**
+ * Item of a synced issue in a GitHub project (v2)
+ */
+export interface ProjectItemMapping {
+  project_id: string;
+  item_id: string;
+}
+
+/**
+ * Beads fields synced to GitHub project fields
+ */
+export type ProjectFieldKey = 'priority' | 'status' | 'type' | 'estimate';
+
 /**
  * Sync metadata stored in the mapping file
  */
@@ -95,6 +142,59 @@ export interface MappingFile {
   sync_metadata: SyncMetadata;
 }
 
+/**
+ * Where the beads ID of a synced issue is stored on GitHub
+ * - title: `[<beads id>] ` title prefix
+ * - label: `beads-id:<beads id>` label
+ * - body: hidden marker comment of the issue body only
+ */
+export type MappingBase = 'title' | 'label' | 'body';
+
+/**
+ * Where the mapping between beads and GitHub issues is loaded from and saved to
+ */
+export type MappingStoreType = 'github-scan' | 'file' | 'git-branch';
+
+/**
+ * How changes made on GitHub are imported back into beads
+ * - off: GitHub changes are ignored (and overwritten)
+ * - patch: changes are written as JSONL mutations to a separate file
+ * - apply: changes are applied directly to the beads JSONL file
+ */
+export type ReverseSyncMode = 'off' | 'patch' | 'apply';
+
+/**
+ * Which side wins when an issue changed both in beads and on GitHub
+ */
+export type ConflictPolicy = 'beads-wins' | 'github-wins' | 'newest-wins';
+
+/**
+ * How `blocks`, `blocked-by` and `relates-to` dependencies are linked on GitHub
+ * - off: dependencies only appear in the issue body
+ * - comment: a cross-reference comment on the dependent issue
+ * - native: a "blocked by" relationship for blocking dependencies, a comment otherwise
+ */
+export type CrossLinkMode = 'off' | 'comment' | 'native';
+
+/**
+ * Compiled user template, rendering its context to Markdown
+ */
+export type TemplateRenderer = (
+  context: Record<string, unknown>,
+  helpers: Record<string, (...args: unknown[]) => unknown>
+) => string;
+
+/**
+ * User templates replacing the built-in issue body and comments
+ * The syncer still adds its marker comments to the rendered Markdown.
+ */
+export interface SyncTemplates {
+  issueBody?: TemplateRenderer;
+  closingComment?: TemplateRenderer;
+  deletionComment?: TemplateRenderer;
+  comment?: TemplateRenderer;
+}
+
 /**
  * Configuration options for the sync action
  */
@@ -107,9 +207,46 @@ export interface SyncConfig {
   syncPriorities: BeadsPriority[];
   syncLabels: string[];
   labelPrefix: string;
+  /** Generated labels, from the `label-config` file and the label prefix */
+  labelScheme?: LabelScheme;
   addSyncMarker: boolean;
+  /** Templates loaded from the `template-dir` directory, if any */
+  templates?: SyncTemplates;
+  /** Delete epic and beads ID labels no longer used by any issue */
+  cleanupLabels: boolean;
   closeDeleted: boolean;
-  mappingBase: 'label' | 'title',
+  /** Adopt open unsynced GitHub issues whose title matches a new beads issue */
+  adoptByTitle: boolean;
+  /** Minimum title match score, between 0 and 1, to adopt an issue automatically */
+  adoptThreshold: number;
+  /** Maximum number of GitHub API calls of a run, 0 for no limit */
+  apiBudget: number;
+  /** Maximum number of sync actions run concurrently */
+  concurrency: number;
+  mappingBase: MappingBase;
+  /** Rewrite the synced issues to the mapping base instead of syncing */
+  migrateMapping: boolean;
+  mappingStore: MappingStoreType;
+  mappingFile: string;
+  mappingBranch: string;
+  reverseSync: ReverseSyncMode;
+  reverseSyncFile: string;
+  conflictPolicy: ConflictPolicy;
+  planFile: string;
+  prPreview: boolean;
+  subIssues: boolean;
+  crossLinks: CrossLinkMode;
+  dependencyGraph: boolean;
+  /** URL of the GitHub project (v2) to add synced issues to, if any */
+  projectUrl: string;
+  /** Names of the project fields receiving each beads field */
+  projectFields: Record<ProjectFieldKey, string>;
+  /** Set native issue types instead of type labels */
+  issueTypes: boolean;
+  /** Native issue type name of each beads issue type */
+  issueTypeMapping: Record<BeadsIssueType, string>;
+  /** Pull request receiving the sync preview comment, if any */
+  pullRequest?: number;
   owner: string;
   repo: string;
 }
@@ -138,15 +275,68 @@ export interface CommentSyncAction {
   comment: BeadsComment;
 }
 
+/**
+ * A synced comment whose beads content changed
+ */
+export interface CommentUpdateAction {
+  beadsIssueId: string;
+  githubIssueNumber: number;
+  githubCommentId: number;
+  comment: BeadsComment;
+}
+
+/**
+ * A synced comment removed from beads
+ */
+export interface CommentDeleteAction {
+  beadsIssueId: string;
+  githubIssueNumber: number;
+  githubCommentId: number;
+  commentId: string;
+}
+
 /**
  * Result of the diff operation
  */
 export interface DiffResult {
   actions: SyncAction[];
   commentActions: CommentSyncAction[];
+  commentUpdateActions: CommentUpdateAction[];
+  commentDeleteActions: CommentDeleteAction[];
   deletedIssueIds: string[];
 }
 
+/**
+ * Types of beads mutations imported from GitHub
+ */
+export type BeadsMutationType =
+  | 'add-comment'
+  | 'set-status'
+  | 'set-labels'
+  | 'set-assignee';
+
+/**
+ * A change made on GitHub, to be applied to a beads issue
+ */
+export interface BeadsMutation {
+  type: BeadsMutationType;
+  issue_id: string;
+  github_issue_number: number;
+  comment?: BeadsComment;
+  status?: BeadsStatus;
+  labels?: string[];
+  assignee?: string;
+}
+
+/**
+ * A field changed both in beads and on GitHub since the last sync
+ */
+export interface SyncConflict {
+  issue_id: string;
+  field: 'status' | 'labels' | 'assignee';
+  winner: 'beads' | 'github';
+}
+
 /**
  * Summary of sync results
  */
@@ -157,7 +347,106 @@ export interface SyncResult {
   reopened: number;
   adopted: number;
   commentsSynced: number;
+  commentsUpdated: number;
+  commentsDeleted: number;
+  subIssuesLinked: number;
+  subIssuesUnlinked: number;
+  crossLinksAdded: number;
+  crossLinksRemoved: number;
+  projectItemsSynced: number;
+  /** Beads issue types synced as labels for lack of a native issue type */
+  unmappedIssueTypes: BeadsIssueType[];
+  /** Orphaned labels deleted, or that would be deleted in dry-run mode */
+  orphanedLabels: string[];
+  /** The API call budget ran out before all changes were synced */
+  budgetExhausted: boolean;
+  /** Beads IDs claimed by several GitHub issues, and how they were resolved */
+  duplicates: DuplicateCollision[];
+  /** Title matches below the adoption threshold, left for review */
+  borderlineTitleMatches: TitleMatch[];
   errors: SyncError[];
+  plan?: SyncPlan;
+}
+
+/**
+ * Unsynced GitHub issue whose title matches a new beads issue
+ */
+export interface TitleMatch {
+  beads_id: string;
+  github_issue_number: number;
+  github_title: string;
+  /** Confidence of the match, between 0 and 1 */
+  score: number;
+}
+
+/**
+ * GitHub issues claiming the same beads ID
+ */
+export interface DuplicateCollision {
+  beadsId: string;
+  /** Issue kept as the issue of the beads ID */
+  canonical: number;
+  /** Issues closed as duplicates, or that would be in dry-run mode */
+  duplicates: number[];
+}
+
+/**
+ * GitHub issue content rendered from a beads issue
+ */
+export interface RenderedIssue {
+  title: string;
+  body: string;
+  labels: string[];
+  assignees: string[];
+  type?: string;
+  /** Content hash recorded in the sync state of the body */
+  contentHash?: string;
+}
+
+/**
+ * Snapshot of the fields of a GitHub issue shown in a sync plan
+ */
+export interface PlanIssueSnapshot {
+  title: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  assignees: string[];
+}
+
+/**
+ * Planned change of a GitHub issue
+ * `before` is null for created issues
+ */
+export interface PlannedIssueChange {
+  type: SyncActionType | 'close-deleted';
+  beads_id: string;
+  github_issue_number?: number;
+  reason: string;
+  before: PlanIssueSnapshot | null;
+  after: PlanIssueSnapshot;
+  body_diff: string;
+}
+
+/**
+ * Planned change of a GitHub comment
+ */
+export interface PlannedCommentChange {
+  type: 'create' | 'update' | 'delete';
+  beads_id: string;
+  github_issue_number: number;
+  comment_id: string;
+  github_comment_id?: number;
+}
+
+/**
+ * Changes a sync would apply, computed in dry-run mode
+ */
+export interface SyncPlan {
+  repository: string;
+  issues: PlannedIssueChange[];
+  comments: PlannedCommentChange[];
+  /** Title matches below the adoption threshold, not adopted */
+  title_matches?: TitleMatch[];
 }
 
 /**
@@ -178,6 +467,22 @@ export interface LabelConfig {
   description: string;
 }
 
+/**
+ * Labels generated by the sync, as customized by the `label-config` file
+ * Disabled labels are missing.
+ */
+export interface LabelScheme {
+  priority: Partial<Record<BeadsPriority, LabelConfig>>;
+  type: Partial<Record<BeadsIssueType, LabelConfig>>;
+  syncMarker: LabelConfig;
+  blocked?: LabelConfig;
+  inProgress?: LabelConfig;
+  /** GitHub names of beads custom labels, by beads name */
+  customLabels: Record<string, string>;
+  /** Existing repository labels the scheme maps to, never created */
+  existing: string[];
+}
+
 /**
  * Default label configurations
  */
@@ -220,6 +525,12 @@ export const IN_PROGRESS_LABEL: LabelConfig = {
  */
 export const BEADS_ID_LABEL_PREFIX = 'beads-id:';
 
+/**
+ * Grammar of beads IDs: a prefix, a hash and optional hierarchical child
+ * numbers, such as `bd-a3f8`, `my-proj-x7k2` or `proj-a3f.1.2`
+ */
+export const BEADS_ID_PATTERN = '[a-zA-Z][a-zA-Z0-9_-]*-[a-zA-Z0-9]+(?:\\.[0-9]+)*';
+
 /**
  * In-memory mapping of beads ID to GitHub issue
  */